@@ -1,71 +1,205 @@
-import React, { useState } from 'react';
-import { MessageCircle, UserCircle } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Navigate,
+  Outlet,
+  Route,
+  Routes,
+  useLocation,
+  useMatch,
+  useNavigate
+} from 'react-router-dom';
+import { MessageCircle, UserCircle, AtSign } from 'lucide-react';
 import { Toaster } from 'react-hot-toast';
 import AuthForm from './components/AuthForm';
-import Chat from './components/Chat';
 import RoomList from './components/RoomList';
+import RoomRoute from './components/RoomRoute';
+import InviteRoute from './components/InviteRoute';
+import ResetPassword from './components/ResetPassword';
+import AuthCallback from './components/AuthCallback';
 import ProfileSettings from './components/ProfileSettings';
+import MentionsInbox from './components/MentionsInbox';
 import { useAuth } from './hooks/useAuth';
+import { useMessageNotifications } from './hooks/useMessageNotifications';
+import {
+  AUTH_CALLBACK_PATH,
+  PROFILE_SETTINGS_PATH,
+  RESET_PASSWORD_PATH,
+  ROOMS_PATH,
+  SIGN_IN_PATH,
+  SignInState,
+  invitePath,
+  returnPathFrom,
+  roomPath
+} from './lib/routes';
 
 function App() {
-  const { session, signOut } = useAuth();
+  const {
+    session,
+    isAwaitingSecondFactor,
+    isInitializing,
+    isRecoveringPassword,
+    endPasswordRecovery,
+    redirectError,
+    signOut
+  } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
-  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
-  const [showProfileSettings, setShowProfileSettings] = useState(false);
+  const [showMentions, setShowMentions] = useState(false);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const activeRoomId = useMatch('/rooms/:roomId')?.params.roomId ?? null;
+
+  const openRoom = useCallback((roomId: string) => navigate(roomPath(roomId)), [navigate]);
+  // Until the second factor is verified the app stays behind the sign-in page
+  const signedInSession = isAwaitingSecondFactor ? null : session;
+  const unseenCount = useMessageNotifications(signedInSession, activeRoomId, openRoom);
+
+  useEffect(() => {
+    document.title = unseenCount > 0 ? `(${unseenCount}) Ding Chat` : 'Ding Chat';
+  }, [unseenCount]);
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate(SIGN_IN_PATH, { replace: true });
+  };
+
+  if (isInitializing) {
+    return <div className="min-h-screen bg-gradient-to-br from-gray-900 to-gray-800" />;
+  }
+
+  // Invite links used to be `?invite=<token>` on any page
+  const legacyInviteToken = new URLSearchParams(location.search).get('invite');
+  if (legacyInviteToken) {
+    return <Navigate to={invitePath(legacyInviteToken)} replace />;
+  }
+
+  // A recovery session may only be used to choose a new password
+  if (session && isRecoveringPassword && location.pathname !== RESET_PASSWORD_PATH) {
+    return <Navigate to={RESET_PASSWORD_PATH} replace />;
+  }
+
+  const returnTo = returnPathFrom(location.state);
+
+  const layout = (
+    <div className="container mx-auto px-4 py-8">
+      <header className="flex items-center justify-between mb-8">
+        <div className="flex items-center gap-2">
+          <MessageCircle className="w-8 h-8 text-blue-400" />
+          <h1 className="text-2xl font-bold">Ding Chat</h1>
+        </div>
+        <div className="flex items-center gap-4">
+          {activeRoomId && (
+            <button
+              onClick={() => navigate(ROOMS_PATH)}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+            >
+              Back to Rooms
+            </button>
+          )}
+          <button
+            onClick={() => setShowMentions(true)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <AtSign className="w-5 h-5" />
+            Mentions
+          </button>
+          <button
+            onClick={() => navigate(PROFILE_SETTINGS_PATH)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <UserCircle className="w-5 h-5" />
+            Profile
+          </button>
+          <button
+            onClick={handleSignOut}
+            className="px-4 py-2 bg-red-500 hover:bg-red-600 rounded-lg transition-colors"
+            disabled={isLoading}
+          >
+            Sign Out
+          </button>
+        </div>
+      </header>
+
+      <main>
+        <Outlet />
+      </main>
+    </div>
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 to-gray-800 text-white">
       <Toaster position="top-center" />
-      {session && (
-        <div className="container mx-auto px-4 py-8">
-          <header className="flex items-center justify-between mb-8">
-            <div className="flex items-center gap-2">
-              <MessageCircle className="w-8 h-8 text-blue-400" />
-              <h1 className="text-2xl font-bold">Ding Chat</h1>
-            </div>
-            <div className="flex items-center gap-4">
-              {selectedRoomId && (
-                <button
-                  onClick={() => setSelectedRoomId(null)}
-                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
-                >
-                  Leave Room
-                </button>
-              )}
-              <button
-                onClick={() => setShowProfileSettings(true)}
-                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center gap-2"
-              >
-                <UserCircle className="w-5 h-5" />
-                Profile
-              </button>
-              <button
-                onClick={() => signOut()}
-                className="px-4 py-2 bg-red-500 hover:bg-red-600 rounded-lg transition-colors"
-                disabled={isLoading}
-              >
-                Sign Out
-              </button>
-            </div>
-          </header>
-
-          <main>
-            {selectedRoomId ? (
-              <Chat session={session} roomId={selectedRoomId} />
+      <Routes>
+        <Route
+          path={SIGN_IN_PATH}
+          element={
+            signedInSession ? (
+              <Navigate to={returnTo} replace />
             ) : (
-              <RoomList session={session} onRoomSelect={setSelectedRoomId} />
-            )}
-          </main>
-        </div>
-      )}
-      
-      {!session && <AuthForm setIsLoading={setIsLoading} />}
+              <AuthForm setIsLoading={setIsLoading} secondFactorRequired={isAwaitingSecondFactor} />
+            )
+          }
+        />
+        <Route
+          path={AUTH_CALLBACK_PATH}
+          element={<AuthCallback session={session} error={redirectError} />}
+        />
+        <Route
+          path={RESET_PASSWORD_PATH}
+          element={
+            session && !isRecoveringPassword ? (
+              <Navigate to={PROFILE_SETTINGS_PATH} replace />
+            ) : (
+              <ResetPassword
+                session={session}
+                onPasswordSet={endPasswordRecovery}
+                onCancel={handleSignOut}
+              />
+            )
+          }
+        />
+        {signedInSession && (
+          <Route element={layout}>
+            <Route
+              index
+              element={<RoomList session={signedInSession} onRoomSelect={openRoom} />}
+            />
+            <Route path="rooms/:roomId" element={<RoomRoute session={signedInSession} />} />
+            <Route path="invite/:token" element={<InviteRoute />} />
+            <Route
+              path={PROFILE_SETTINGS_PATH}
+              element={
+                <>
+                  <RoomList session={signedInSession} onRoomSelect={openRoom} />
+                  <ProfileSettings
+                    session={signedInSession}
+                    onClose={() => navigate(ROOMS_PATH)}
+                  />
+                </>
+              }
+            />
+          </Route>
+        )}
+        <Route
+          path="*"
+          element={
+            signedInSession ? (
+              <Navigate to={ROOMS_PATH} replace />
+            ) : (
+              <Navigate to={SIGN_IN_PATH} state={{ from: location } satisfies SignInState} replace />
+            )
+          }
+        />
+      </Routes>
 
-      {showProfileSettings && (
-        <ProfileSettings onClose={() => setShowProfileSettings(false)} />
+      {showMentions && signedInSession && (
+        <MentionsInbox
+          session={signedInSession}
+          onOpenRoom={openRoom}
+          onClose={() => setShowMentions(false)}
+        />
       )}
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
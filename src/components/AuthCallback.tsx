@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Session } from '@supabase/supabase-js';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { SIGN_IN_PATH, takeReturnPath } from '../lib/routes';
+
+interface AuthCallbackProps {
+  session: Session | null;
+  error: string | null;
+}
+
+/**
+ * Landing page for OAuth sign-ins, identity linking and emailed sign-in
+ * links. By the time it renders `useAuth` has restored the session from the
+ * URL, so all that is left is sending the user on to where they started.
+ */
+export default function AuthCallback({ session, error }: AuthCallbackProps) {
+  const navigate = useNavigate();
+  // Strict mode runs effects twice; the return path can only be taken once
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+
+    const returnTo = takeReturnPath();
+    if (error) {
+      toast.error(error);
+    }
+
+    navigate(session ? returnTo : SIGN_IN_PATH, { replace: true });
+  }, [session, error, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <Loader2 className="w-8 h-8 text-blue-400 animate-spin" />
+    </div>
+  );
+}
@@ -1,19 +1,36 @@
 import React, { useState, useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
 import { toast } from 'react-hot-toast';
 import { supabase } from '../lib/supabase';
-import { Mail, Lock, LogIn, UserPlus, AlertCircle } from 'lucide-react';
+import {
+  RESET_PASSWORD_PATH,
+  authCallbackUrl,
+  rememberReturnPath,
+  returnPathFrom
+} from '../lib/routes';
+import { passwordProblem } from '../lib/passwords';
+import { OAUTH_PROVIDERS, OAuthProvider } from '../lib/authProviders';
+import { Mail, Lock, LogIn, UserPlus, AlertCircle, KeyRound, Wand2, ArrowLeft } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import PasswordRules from './PasswordRules';
+import SecondFactorPrompt from './SecondFactorPrompt';
 
 interface AuthFormProps {
   setIsLoading: (loading: boolean) => void;
+  // Signed in with a first factor but still owing an authenticator code
+  secondFactorRequired?: boolean;
 }
 
-export default function AuthForm({ setIsLoading }: AuthFormProps) {
+export default function AuthForm({ setIsLoading, secondFactorRequired = false }: AuthFormProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSignUp, setIsSignUp] = useState(false);
   const [circles, setCircles] = useState<{ x: number; y: number; scale: number }[]>([]);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // Set once a sign-in link and code have been emailed
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const location = useLocation();
 
   useEffect(() => {
     const newCircles = Array.from({ length: 15 }, () => ({
@@ -29,10 +46,6 @@ export default function AuthForm({ setIsLoading }: AuthFormProps) {
     return emailRegex.test(email);
   };
 
-  const validatePassword = (password: string) => {
-    return password.length >= 6;
-  };
-
   const clearError = () => {
     setErrorMessage(null);
   };
@@ -46,8 +59,9 @@ export default function AuthForm({ setIsLoading }: AuthFormProps) {
       return;
     }
 
-    if (!validatePassword(password)) {
-      setErrorMessage('Password must be at least 6 characters long');
+    const problem = passwordProblem(password);
+    if (problem) {
+      setErrorMessage(problem);
       return;
     }
 
@@ -83,8 +97,8 @@ export default function AuthForm({ setIsLoading }: AuthFormProps) {
       return;
     }
 
-    if (!validatePassword(password)) {
-      setErrorMessage('Password must be at least 6 characters long');
+    if (!password) {
+      setErrorMessage('Please enter your password');
       return;
     }
 
@@ -125,7 +139,7 @@ export default function AuthForm({ setIsLoading }: AuthFormProps) {
 
     try {
       const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${window.location.origin}/reset-password`,
+        redirectTo: `${window.location.origin}${RESET_PASSWORD_PATH}`,
       });
 
       if (error) throw error;
@@ -140,6 +154,89 @@ export default function AuthForm({ setIsLoading }: AuthFormProps) {
     }
   };
 
+  // One email carries both a magic link and a code, so the user can sign in
+  // from another device or tab by typing the code here
+  const handleSendSignInLink = async () => {
+    clearError();
+
+    if (!validateEmail(email)) {
+      setErrorMessage('Please enter your email address');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      rememberReturnPath(returnPathFrom(location.state));
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: authCallbackUrl() },
+      });
+
+      if (error) throw error;
+      setCodeSentTo(email);
+      setCode('');
+      toast.success('Check your email for a sign-in link or code');
+    } catch (error) {
+      if (error instanceof Error) {
+        setErrorMessage(error.message);
+        toast.error('Failed to send sign-in link');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    clearError();
+    if (!codeSentTo) return;
+
+    setIsLoading(true);
+
+    try {
+      const { error } = await supabase.auth.verifyOtp({
+        email: codeSentTo,
+        token: code.trim(),
+        type: 'email',
+      });
+
+      if (error) {
+        setErrorMessage(
+          error.message === 'Token has expired or is invalid'
+            ? 'That code is wrong or has expired. Please try again.'
+            : error.message
+        );
+        throw error;
+      }
+
+      toast.success('Successfully signed in!');
+    } catch (error) {
+      if (error instanceof Error) {
+        toast.error('Sign in failed');
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOAuthSignIn = async (provider: OAuthProvider) => {
+    clearError();
+    rememberReturnPath(returnPathFrom(location.state));
+
+    // On success the browser leaves for the provider, so there is nothing
+    // else to do here
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider: provider.id,
+      options: { redirectTo: authCallbackUrl() },
+    });
+
+    if (error) {
+      setErrorMessage(error.message);
+      toast.error(`${provider.label} sign in failed`);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center relative overflow-hidden">
       {/* Background Image */}
@@ -234,7 +331,7 @@ export default function AuthForm({ setIsLoading }: AuthFormProps) {
             animate={{ opacity: 1 }}
             transition={{ delay: 0.2 }}
           >
-            {isSignUp ? 'Join Ding Chat' : 'Welcome Back'}
+            {secondFactorRequired ? 'One More Step' : isSignUp ? 'Join Ding Chat' : 'Welcome Back'}
           </motion.h2>
 
           {/* Error Message */}
@@ -253,82 +350,165 @@ export default function AuthForm({ setIsLoading }: AuthFormProps) {
           </AnimatePresence>
 
           <AnimatePresence mode="wait">
-            <motion.form
-              key={isSignUp ? 'signup' : 'signin'}
-              onSubmit={isSignUp ? handleSubmit : handleSignIn}
-              className="space-y-6"
-              initial={{ opacity: 0, x: isSignUp ? 50 : -50 }}
-              animate={{ opacity: 1, x: 0 }}
-              exit={{ opacity: 0, x: isSignUp ? -50 : 50 }}
-              onChange={clearError}
-            >
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 text-blue-400 w-5 h-5" />
-                <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="w-full pl-12 pr-4 py-3 bg-white/10 rounded-xl border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 text-white placeholder-white/50"
-                  placeholder="Email address"
-                  required
-                />
-              </div>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-blue-400 w-5 h-5" />
-                <input
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full pl-12 pr-4 py-3 bg-white/10 rounded-xl border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 text-white placeholder-white/50"
-                  placeholder="Password"
-                  required
-                />
-              </div>
-              <motion.button
-                type="submit"
-                className="w-full py-3 px-6 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transform hover:translate-y-[-2px] transition-all duration-200 flex items-center justify-center gap-2"
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
+            {secondFactorRequired ? (
+              <SecondFactorPrompt setIsLoading={setIsLoading} onError={setErrorMessage} />
+            ) : codeSentTo ? (
+              <motion.form
+                key="code"
+                onSubmit={handleVerifyCode}
+                className="space-y-6"
+                initial={{ opacity: 0, x: 50 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: -50 }}
+                onChange={clearError}
+              >
+                <p className="text-sm text-white/70 text-center">
+                  We sent a sign-in link and code to <span className="text-white">{codeSentTo}</span>.
+                  Open the link, or enter the code below.
+                </p>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 text-blue-400 w-5 h-5" />
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-full pl-12 pr-4 py-3 bg-white/10 rounded-xl border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 text-white placeholder-white/50 tracking-widest"
+                    placeholder="Code"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                  />
+                </div>
+                <motion.button
+                  type="submit"
+                  className="w-full py-3 px-6 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transform hover:translate-y-[-2px] transition-all duration-200 flex items-center justify-center gap-2"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <LogIn className="w-5 h-5" />
+                  Sign In
+                </motion.button>
+                <button
+                  type="button"
+                  onClick={() => setCodeSentTo(null)}
+                  className="w-full text-white/70 hover:text-white transition-colors duration-200 text-sm flex items-center justify-center gap-1"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  Use another sign-in method
+                </button>
+              </motion.form>
+            ) : (
+              <motion.form
+                key={isSignUp ? 'signup' : 'signin'}
+                onSubmit={isSignUp ? handleSubmit : handleSignIn}
+                className="space-y-6"
+                initial={{ opacity: 0, x: isSignUp ? 50 : -50 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: isSignUp ? -50 : 50 }}
+                onChange={clearError}
               >
-                {isSignUp ? (
-                  <>
-                    <UserPlus className="w-5 h-5" />
-                    Create Account
-                  </>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 text-blue-400 w-5 h-5" />
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="w-full pl-12 pr-4 py-3 bg-white/10 rounded-xl border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 text-white placeholder-white/50"
+                    placeholder="Email address"
+                    required
+                  />
+                </div>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-blue-400 w-5 h-5" />
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full pl-12 pr-4 py-3 bg-white/10 rounded-xl border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 text-white placeholder-white/50"
+                    placeholder="Password"
+                    autoComplete={isSignUp ? 'new-password' : 'current-password'}
+                    required
+                  />
+                </div>
+                {isSignUp && <PasswordRules password={password} />}
+                <motion.button
+                  type="submit"
+                  className="w-full py-3 px-6 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transform hover:translate-y-[-2px] transition-all duration-200 flex items-center justify-center gap-2"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  {isSignUp ? (
+                    <>
+                      <UserPlus className="w-5 h-5" />
+                      Create Account
+                    </>
                 ) : (
-                  <>
-                    <LogIn className="w-5 h-5" />
-                    Sign In
-                  </>
-                )}
-              </motion.button>
-            </motion.form>
+                    <>
+                      <LogIn className="w-5 h-5" />
+                      Sign In
+                    </>
+                  )}
+                </motion.button>
+              </motion.form>
+            )}
           </AnimatePresence>
 
-          <motion.div 
-            className="mt-6 text-center space-y-2"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.4 }}
-          >
-            <button
-              onClick={() => setIsSignUp(!isSignUp)}
-              className="text-white/70 hover:text-white transition-colors duration-200 text-sm"
-            >
-              {isSignUp ? 'Already have an account? Sign In' : 'Need an account? Sign Up'}
-            </button>
-            {!isSignUp && (
-              <div>
+          {!codeSentTo && !secondFactorRequired && (
+            <div className="mt-6 space-y-3">
+              <div className="flex items-center gap-3 text-xs text-white/50">
+                <span className="flex-1 h-px bg-white/20" />
+                or
+                <span className="flex-1 h-px bg-white/20" />
+              </div>
+              <button
+                type="button"
+                onClick={handleSendSignInLink}
+                className="w-full py-3 px-6 bg-white/10 hover:bg-white/20 rounded-xl border border-white/20 text-white transition-colors duration-200 flex items-center justify-center gap-2"
+              >
+                <Wand2 className="w-5 h-5" />
+                Email me a sign-in link
+              </button>
+              {OAUTH_PROVIDERS.map((provider) => (
                 <button
+                  key={provider.id}
                   type="button"
-                  onClick={handleForgotPassword}
-                  className="text-blue-400 hover:text-blue-300 transition-colors duration-200 text-sm"
+                  onClick={() => handleOAuthSignIn(provider)}
+                  className="w-full py-3 px-6 bg-white/10 hover:bg-white/20 rounded-xl border border-white/20 text-white transition-colors duration-200 flex items-center justify-center gap-2"
                 >
-                  Forgot your password?
+                  <provider.icon className="w-5 h-5" />
+                  Continue with {provider.label}
                 </button>
-              </div>
-            )}
-          </motion.div>
+              ))}
+            </div>
+          )}
+
+          {!secondFactorRequired && (
+            <motion.div 
+              className="mt-6 text-center space-y-2"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.4 }}
+            >
+              <button
+                onClick={() => setIsSignUp(!isSignUp)}
+                className="text-white/70 hover:text-white transition-colors duration-200 text-sm"
+              >
+                {isSignUp ? 'Already have an account? Sign In' : 'Need an account? Sign Up'}
+              </button>
+              {!isSignUp && (
+                <div>
+                  <button
+                    type="button"
+                    onClick={handleForgotPassword}
+                    className="text-blue-400 hover:text-blue-300 transition-colors duration-200 text-sm"
+                  >
+                    Forgot your password?
+                  </button>
+                </div>
+              )}
+            </motion.div>
+          )}
         </motion.div>
       </div>
     </div>
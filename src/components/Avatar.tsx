@@ -0,0 +1,58 @@
+import type { Profile } from '../lib/repository/profiles';
+
+const SIZES = {
+  xs: 'w-5 h-5 text-[10px]',
+  sm: 'w-8 h-8 text-xs',
+  md: 'w-10 h-10 text-sm',
+  lg: 'w-20 h-20 text-2xl'
+};
+
+// A stable gradient per user so initials avatars are easy to tell apart
+const GRADIENTS = [
+  'from-blue-500 to-purple-600',
+  'from-pink-500 to-rose-600',
+  'from-emerald-500 to-teal-600',
+  'from-amber-500 to-orange-600',
+  'from-indigo-500 to-sky-600',
+  'from-fuchsia-500 to-violet-600'
+];
+
+const gradientFor = (id: string) =>
+  GRADIENTS[[...id].reduce((sum, char) => sum + char.charCodeAt(0), 0) % GRADIENTS.length];
+
+const initialsFor = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('') || '?';
+
+interface AvatarProps {
+  userId: string;
+  profile?: Profile;
+  size?: keyof typeof SIZES;
+  className?: string;
+}
+
+export default function Avatar({ userId, profile, size = 'sm', className = '' }: AvatarProps) {
+  if (profile?.avatar_url) {
+    return (
+      <img
+        src={profile.avatar_url}
+        alt={profile.display_name}
+        className={`${SIZES[size]} rounded-full object-cover shrink-0 ${className}`}
+        loading="lazy"
+      />
+    );
+  }
+
+  return (
+    <span
+      className={`${SIZES[size]} rounded-full bg-gradient-to-br ${gradientFor(userId)} flex items-center justify-center font-semibold text-white shrink-0 ${className}`}
+      aria-label={profile?.display_name}
+    >
+      {profile ? initialsFor(profile.display_name) : ''}
+    </span>
+  );
+}
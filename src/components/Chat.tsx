@@ -1,62 +1,286 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useLayoutEffect, useState, useRef, useMemo } from 'react';
 import { Session } from '@supabase/supabase-js';
-import { Send, Smile, Image as ImageIcon, X, Loader2, Paperclip } from 'lucide-react';
+import { Send, Smile, X, Loader2, Paperclip, ArrowDown, Hash, Eye, EyeOff } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import EmojiPicker, { EmojiClickData } from 'emoji-picker-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '../lib/supabase';
+import { showError } from '../lib/errors';
+import { ALLOWED_ATTACHMENT_TYPES } from '../lib/attachments';
+import {
+  Message,
+  deleteMessage,
+  editMessage,
+  listLatestMessages,
+  listMessagesBefore
+} from '../lib/repository/messages';
+import { RoomDetails, getRoomDetails, startDirectConversation } from '../lib/repository/rooms';
+import { getLastReadAt } from '../lib/repository/memberships';
+import type { Profile } from '../lib/repository/profiles';
+import {
+  MentionCandidate,
+  activeMentionQuery,
+  encodeMentions,
+  mentionedUserIds
+} from '../lib/mentions';
+import { useReactions } from '../hooks/useReactions';
+import { useRoomChannel, TypingUser } from '../hooks/useRoomChannel';
+import { useReadMarker } from '../hooks/useReadMarker';
+import { useProfiles } from '../hooks/useProfiles';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import { useOutbox } from '../hooks/useOutbox';
+import type { OutboxEntry } from '../lib/outbox';
+import MessageBubble from './MessageBubble';
+import MessageContent from './MessageContent';
+import MentionSuggestions from './MentionSuggestions';
+import UploadTray from './UploadTray';
+import RoomMembers from './RoomMembers';
+import Avatar from './Avatar';
+import NotificationLevelMenu from './NotificationLevelMenu';
 
-interface Message {
-  id: string;
-  created_at: string;
-  content: string;
-  user_id: string;
-  user_email: string;
-  image_url?: string;
-  message_type: 'text' | 'image';
-  room_id: string;
-}
+// Number of messages loaded on open and per page when scrolling up
+const PAGE_SIZE = 50;
+
+// How close to an edge (in px) counts as being at the top or bottom
+const SCROLL_THRESHOLD = 80;
+
+// The composer grows with its content up to this many lines, then scrolls
+const MAX_COMPOSER_ROWS = 8;
+
+const MAX_MENTION_SUGGESTIONS = 6;
+
+const describeTyping = (users: TypingUser[], profiles: Record<string, Profile>) => {
+  const name = (user: TypingUser) => profiles[user.user_id]?.display_name ?? 'Someone';
+  if (users.length === 1) return `${name(users[0])} is typing…`;
+  if (users.length === 2) {
+    return `${name(users[0])} and ${name(users[1])} are typing…`;
+  }
+  return `${users.length} people are typing…`;
+};
+
+// Shapes a queued outbox entry like a message so it renders in the timeline
+const toPendingMessage = (entry: OutboxEntry): Message => ({
+  id: entry.id,
+  created_at: entry.created_at,
+  content: entry.content,
+  user_id: entry.user_id,
+  message_type: 'text',
+  room_id: entry.room_id,
+  edited_at: null,
+  deleted_at: null,
+  image_url: null,
+  file_path: null,
+  file_name: null,
+  file_size: null,
+  file_mime: null,
+  thumbnail_path: null,
+  image_width: null,
+  image_height: null,
+  blur_placeholder: null,
+  mentions: entry.mentions
+});
 
 interface ChatProps {
   session: Session;
   roomId: string;
+  onLeave: () => void;
+  onOpenRoom: (roomId: string) => void;
 }
 
-export default function Chat({ session, roomId }: ChatProps) {
+export default function Chat({ session, roomId, onLeave, onOpenRoom }: ChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [room, setRoom] = useState<RoomDetails | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const messageIds = useMemo(() => messages.map((message) => message.id), [messages]);
+  const { reactions, toggleReaction } = useReactions(roomId, session.user.id, messageIds);
+  const uploads = useUploadQueue(roomId, session.user.id);
+  const outbox = useOutbox(roomId, session.user.id, (sent) =>
+    setMessages((current) =>
+      current.some((message) => message.id === sent.id) ? current : [...current, sent]
+    )
+  );
+  // Sent messages stay pending until their row is in the list
+  const pendingEntries = useMemo(
+    () =>
+      outbox.entries.filter((entry) => !messages.some((message) => message.id === entry.id)),
+    [outbox.entries, messages]
+  );
+  const timeline = useMemo(
+    () => [...messages, ...pendingEntries.map(toPendingMessage)],
+    [messages, pendingEntries]
+  );
+  const {
+    members: onlineMembers,
+    typingUsers,
+    notifyTyping,
+    stopTyping
+  } = useRoomChannel(roomId, session);
+  const isDirect = room?.kind === 'direct';
+  const isRoomOwner = room?.owner_id === session.user.id && !isDirect;
+  const directPartnerId = isDirect
+    ? room.room_users.find((member) => member.user_id !== session.user.id)?.user_id ?? null
+    : null;
+  const memberIds = room?.room_users.map((member) => member.user_id) ?? [];
+  const profiles = useProfiles([
+    ...memberIds,
+    ...messages.map((message) => message.user_id),
+    ...typingUsers.map((user) => user.user_id),
+    ...onlineMembers.map((member) => member.user_id)
+  ]);
   
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const mentionCandidates: MentionCandidate[] = memberIds
+    .filter((id) => id !== session.user.id && profiles[id])
+    .map((id) => ({ id, name: profiles[id].display_name }));
+  const mentionSuggestions = mentionQuery
+    ? mentionCandidates
+        .filter((candidate) =>
+          candidate.name.toLowerCase().startsWith(mentionQuery.query.toLowerCase())
+        )
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  const pendingById = Object.fromEntries(pendingEntries.map((entry) => [entry.id, entry]));
+
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [unseenCount, setUnseenCount] = useState(0);
+  // Read marker as it was when the room was opened; drives the divider
+  const [lastReadAt, setLastReadAt] = useState<string | null>(null);
+  const firstUnreadRef = useRef<HTMLDivElement>(null);
+  const isNearBottomRef = useRef(true);
+  const onLeaveRef = useRef(onLeave);
+  onLeaveRef.current = onLeave;
+  const lastMessageIdRef = useRef<string | null>(null);
+  // Distance from the bottom to restore after older messages are prepended
+  const restoreOffsetRef = useRef<number | null>(null);
+
+  useReadMarker(roomId, chatContainerRef, messages.length);
+
+  const firstUnreadId = useMemo(() => {
+    if (!lastReadAt) return null;
+    const readAt = new Date(lastReadAt).getTime();
+    return (
+      messages.find(
+        (message) =>
+          message.user_id !== session.user.id &&
+          new Date(message.created_at).getTime() > readAt
+      )?.id ?? null
+    );
+  }, [messages, lastReadAt, session.user.id]);
+
+  const scrollToBottom = (behavior: ScrollBehavior = 'smooth') => {
+    messagesEndRef.current?.scrollIntoView({ behavior });
+    setUnseenCount(0);
   };
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+  useLayoutEffect(() => {
+    const container = chatContainerRef.current;
+    if (!container) return;
+
+    if (restoreOffsetRef.current !== null) {
+      container.scrollTop = container.scrollHeight - restoreOffsetRef.current;
+      restoreOffsetRef.current = null;
+      return;
+    }
+
+    // Only react to new messages at the end, not to edits or prepended pages
+    const lastMessage = timeline[timeline.length - 1];
+    if (!lastMessage || lastMessage.id === lastMessageIdRef.current) return;
+
+    const isFirstLoad = lastMessageIdRef.current === null;
+    lastMessageIdRef.current = lastMessage.id;
+
+    if (isFirstLoad) {
+      if (firstUnreadRef.current) {
+        firstUnreadRef.current.scrollIntoView({ block: 'start' });
+      } else {
+        scrollToBottom('auto');
+      }
+    } else if (isNearBottomRef.current || lastMessage.user_id === session.user.id) {
+      scrollToBottom();
+    } else {
+      setUnseenCount((count) => count + 1);
+    }
+  }, [timeline, session.user.id]);
+
+  const loadOlderMessages = async () => {
+    const oldest = messages[0];
+    if (!oldest || isLoadingOlder || !hasOlderMessages) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const older = await listMessagesBefore(roomId, oldest, PAGE_SIZE);
+
+      const container = chatContainerRef.current;
+      if (container) {
+        restoreOffsetRef.current = container.scrollHeight - container.scrollTop;
+      }
+
+      setHasOlderMessages(older.length === PAGE_SIZE);
+      setMessages((current) => [...older, ...current]);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleScroll = () => {
+    const container = chatContainerRef.current;
+    if (!container) return;
+
+    isNearBottomRef.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight < SCROLL_THRESHOLD;
+
+    if (isNearBottomRef.current && unseenCount > 0) {
+      setUnseenCount(0);
+    }
+
+    if (container.scrollTop < SCROLL_THRESHOLD) {
+      loadOlderMessages();
+    }
+  };
 
   useEffect(() => {
+    setMessages([]);
+    setHasOlderMessages(false);
+    setUnseenCount(0);
+    setLastReadAt(null);
+    setRoom(null);
+    isNearBottomRef.current = true;
+    lastMessageIdRef.current = null;
+
     const fetchMessages = async () => {
-      const { data, error } = await supabase
-        .from('messages')
-        .select('*')
-        .eq('room_id', roomId)
-        .order('created_at', { ascending: true });
+      try {
+        const [latest, readAt] = await Promise.all([
+          listLatestMessages(roomId, PAGE_SIZE),
+          // Without a marker the divider is simply not shown
+          getLastReadAt(roomId, session.user.id).catch(() => null)
+        ]);
 
-      if (error) {
+        setLastReadAt(readAt);
+        setHasOlderMessages(latest.length === PAGE_SIZE);
+        setMessages(latest);
+      } catch {
         toast.error('Failed to fetch messages');
-        return;
       }
+    };
 
-      setMessages(data || []);
+    const fetchRoom = async () => {
+      setRoom(await getRoomDetails(roomId).catch(() => null));
     };
 
     fetchMessages();
+    fetchRoom();
 
     const channel = supabase
       .channel('messages')
@@ -70,7 +294,38 @@ export default function Chat({ session, roomId }: ChatProps) {
         },
         (payload) => {
           if (payload.eventType === 'INSERT') {
-            setMessages((current) => [...current, payload.new as Message]);
+            const inserted = payload.new as Message;
+            setMessages((current) =>
+              current.some((message) => message.id === inserted.id)
+                ? current
+                : [...current, inserted]
+            );
+          } else if (payload.eventType === 'UPDATE') {
+            const updated = payload.new as Message;
+            setMessages((current) =>
+              current.map((message) => (message.id === updated.id ? updated : message))
+            );
+          }
+        }
+      )
+      // Realtime cannot filter DELETE events by column, so match on id instead
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        (payload) => {
+          const deletedId = (payload.old as Partial<Message>).id;
+          setMessages((current) => current.filter((message) => message.id !== deletedId));
+        }
+      )
+      // Kicks and bans remove our membership row while the room is open
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'room_users' },
+        (payload) => {
+          const removed = payload.old as { room_id?: string; user_id?: string };
+          if (removed.room_id === roomId && removed.user_id === session.user.id) {
+            toast.error('You were removed from this room');
+            onLeaveRef.current();
           }
         }
       )
@@ -79,76 +334,130 @@ export default function Chat({ session, roomId }: ChatProps) {
     return () => {
       channel.unsubscribe();
     };
-  }, [roomId]);
+  }, [roomId, session.user.id]);
 
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim()) return;
-
-    try {
-      const { error } = await supabase.from('messages').insert([
-        {
-          content: newMessage,
-          user_id: session.user.id,
-          user_email: session.user.email,
-          message_type: 'text',
-          room_id: roomId
-        },
-      ]);
+    const content = encodeMentions(newMessage, mentionCandidates);
+    setMentionQuery(null);
 
-      if (error) throw error;
+    // With files in the tray, the text box holds their optional caption
+    if (uploads.hasQueuedFiles) {
       setNewMessage('');
-    } catch (error) {
-      if (error instanceof Error) {
-        toast.error(error.message);
+      stopTyping();
+      await uploads.sendAll(content);
+      return;
+    }
+
+    if (!content.trim()) return;
+
+    outbox.send(content, mentionedUserIds(content));
+    setNewMessage('');
+    stopTyping();
+  };
+
+  const handleComposerChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setNewMessage(e.target.value);
+    setMentionQuery(activeMentionQuery(e.target.value, e.target.selectionStart));
+    setMentionIndex(0);
+    if (e.target.value.trim()) {
+      notifyTyping();
+    } else {
+      stopTyping();
+    }
+  };
+
+  // Replace the `@query` being typed with the full name and a trailing space
+  const insertMention = (candidate: MentionCandidate) => {
+    if (!mentionQuery) return;
+    const end = mentionQuery.start + 1 + mentionQuery.query.length;
+    const inserted = `@${candidate.name} `;
+    setNewMessage((current) => current.slice(0, mentionQuery.start) + inserted + current.slice(end));
+    setMentionQuery(null);
+
+    const caret = mentionQuery.start + inserted.length;
+    requestAnimationFrame(() => composerRef.current?.setSelectionRange(caret, caret));
+  };
+
+  // Enter sends, Shift+Enter inserts a newline; IME composition is left alone.
+  // While suggestions are open, the arrows, Enter and Tab drive them instead.
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mentionSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex(
+          (index) => (index + step + mentionSuggestions.length) % mentionSuggestions.length
+        );
+        return;
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMentionQuery(null);
+        return;
       }
     }
+
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
   };
 
-  const handleImageUpload = async (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      toast.error('Please upload an image file');
-      return;
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      uploads.addFiles(Array.from(e.target.files));
     }
+    e.target.value = '';
+  };
 
-    setIsUploading(true);
-    try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Math.random()}.${fileExt}`;
-      const filePath = `${session.user.id}/${fileName}`;
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      uploads.addFiles(files);
+    }
+  };
 
-      const { error: uploadError } = await supabase.storage
-        .from('message-images')
-        .upload(filePath, file);
+  const handleEditMessage = async (messageId: string, text: string) => {
+    const content = encodeMentions(text, mentionCandidates);
+    try {
+      const edited = await editMessage(messageId, content, mentionedUserIds(content));
+      setMessages((current) =>
+        current.map((message) => (message.id === messageId ? edited : message))
+      );
+      return true;
+    } catch (error) {
+      showError(error);
+      return false;
+    }
+  };
 
-      if (uploadError) throw uploadError;
+  const handleDeleteMessage = async (messageId: string) => {
+    const message = messages.find((candidate) => candidate.id === messageId);
+    if (!message) return;
 
-      const { data: { publicUrl } } = supabase.storage
-        .from('message-images')
-        .getPublicUrl(filePath);
+    try {
+      const deleted = await deleteMessage(message);
+      setMessages((current) =>
+        current.map((candidate) => (candidate.id === messageId ? deleted : candidate))
+      );
+    } catch (error) {
+      showError(error);
+    }
+  };
 
-      const { error: messageError } = await supabase.from('messages').insert([
-        {
-          content: 'Sent an image',
-          user_id: session.user.id,
-          user_email: session.user.email,
-          image_url: publicUrl,
-          message_type: 'image',
-          room_id: roomId
-        },
-      ]);
+  const handleStartDirect = async (userId: string) => {
+    if (userId === session.user.id || userId === directPartnerId) return;
 
-      if (messageError) throw messageError;
-      
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+    try {
+      onOpenRoom(await startDirectConversation(userId));
     } catch (error) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      }
-    } finally {
-      setIsUploading(false);
+      showError(error);
     }
   };
 
@@ -171,38 +480,84 @@ export default function Chat({ session, roomId }: ChatProps) {
     e.preventDefault();
     setIsDragging(false);
     
-    const files = e.dataTransfer.files;
+    const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      handleImageUpload(files[0]);
+      uploads.addFiles(files);
     }
   };
 
   return (
-    <div className="max-w-4xl mx-auto">
+    <div className="max-w-5xl mx-auto flex gap-4">
       <div 
-        className={`bg-gradient-to-br from-gray-800/50 to-gray-900/50 backdrop-blur-lg rounded-2xl shadow-2xl border ${
+        className={`flex-1 min-w-0 bg-gradient-to-br from-gray-800/50 to-gray-900/50 backdrop-blur-lg rounded-2xl shadow-2xl border ${
           isDragging ? 'border-blue-500 border-2' : 'border-gray-700/50'
         } h-[600px] flex flex-col relative transition-all duration-300`}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
       >
+        {room && (
+          <div className="px-4 py-3 border-b border-gray-700/50 flex items-center gap-3">
+            {isDirect && directPartnerId ? (
+              <>
+                <Avatar userId={directPartnerId} profile={profiles[directPartnerId]} />
+                <div className="min-w-0">
+                  <h2 className="font-semibold truncate">
+                    {profiles[directPartnerId]?.display_name ?? '…'}
+                  </h2>
+                  <p className="text-xs text-gray-400">Direct message</p>
+                </div>
+              </>
+            ) : (
+              <>
+                <Hash className="w-5 h-5 text-blue-400" />
+                <h2 className="font-semibold truncate">{room.name}</h2>
+              </>
+            )}
+            <NotificationLevelMenu roomId={roomId} userId={session.user.id} />
+          </div>
+        )}
         {isDragging && (
           <div className="absolute inset-0 bg-blue-500/10 rounded-2xl flex items-center justify-center backdrop-blur-sm z-50">
             <div className="bg-gray-800 p-4 rounded-lg shadow-xl flex items-center gap-2">
               <Paperclip className="w-6 h-6 text-blue-400" />
-              <p className="text-white font-medium">Drop your image here</p>
+              <p className="text-white font-medium">Drop your files here</p>
             </div>
           </div>
         )}
         <div 
           ref={chatContainerRef}
+          onScroll={handleScroll}
           className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-transparent"
         >
+          {isLoadingOlder && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            </div>
+          )}
+          {!hasOlderMessages && messages.length > 0 && (
+            <p className="text-center text-xs text-gray-500 py-2">Beginning of the conversation</p>
+          )}
           <AnimatePresence>
-            {messages.map((message) => (
+            {timeline.flatMap((message) => [
+              ...(message.id === firstUnreadId
+                ? [
+                    <motion.div
+                      key="new-messages-divider"
+                      ref={firstUnreadRef}
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      className="flex items-center gap-3 text-xs font-semibold text-red-400 uppercase tracking-wide"
+                    >
+                      <span className="flex-1 h-px bg-red-400/40" />
+                      New messages
+                      <span className="flex-1 h-px bg-red-400/40" />
+                    </motion.div>
+                  ]
+                : []),
               <motion.div
                 key={message.id}
+                data-message-created-at={pendingById[message.id] ? undefined : message.created_at}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, scale: 0.95 }}
@@ -211,34 +566,68 @@ export default function Chat({ session, roomId }: ChatProps) {
                   message.user_id === session.user.id ? 'justify-end' : 'justify-start'
                 }`}
               >
-                <motion.div
-                  whileHover={{ scale: 1.02 }}
-                  className={`max-w-[70%] rounded-2xl p-4 ${
-                    message.user_id === session.user.id
-                      ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white'
-                      : 'bg-gray-800/80 text-gray-100'
-                  }`}
-                >
-                  <p className="text-sm font-medium mb-1 opacity-80">{message.user_email}</p>
-                  {message.message_type === 'image' ? (
-                    <motion.img 
-                      initial={{ opacity: 0, scale: 0.8 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      src={message.image_url} 
-                      alt="Shared image" 
-                      className="rounded-lg max-w-full h-auto"
-                      loading="lazy"
-                    />
-                  ) : (
-                    <p className="break-words">{message.content}</p>
-                  )}
-                </motion.div>
+                <MessageBubble
+                  message={message}
+                  author={profiles[message.user_id]}
+                  currentUserId={session.user.id}
+                  canDelete={message.user_id === session.user.id || isRoomOwner}
+                  reactions={reactions.filter((reaction) => reaction.message_id === message.id)}
+                  onToggleReaction={(emoji) => toggleReaction(message.id, emoji)}
+                  onEdit={(content) => handleEditMessage(message.id, content)}
+                  onDelete={() => handleDeleteMessage(message.id)}
+                  onAuthorClick={() => handleStartDirect(message.user_id)}
+                  pending={
+                    pendingById[message.id] && {
+                      status: pendingById[message.id].status,
+                      error: pendingById[message.id].error,
+                      onRetry: () => outbox.retry(message.id),
+                      onDiscard: () => outbox.discard(message.id)
+                    }
+                  }
+                />
               </motion.div>
-            ))}
+            ])}
           </AnimatePresence>
           <div ref={messagesEndRef} />
         </div>
+        <AnimatePresence>
+          {unseenCount > 0 && (
+            <motion.button
+              type="button"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: 10 }}
+              onClick={() => scrollToBottom()}
+              className="absolute bottom-24 left-1/2 -translate-x-1/2 z-20 px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-full text-white text-sm font-medium shadow-lg shadow-blue-500/30 flex items-center gap-2 transition-colors"
+            >
+              <ArrowDown className="w-4 h-4" />
+              {unseenCount === 1 ? '1 new message' : `${unseenCount} new messages`}
+            </motion.button>
+          )}
+        </AnimatePresence>
         <div className="relative">
+          <AnimatePresence>
+            {typingUsers.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 5 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: 5 }}
+                className="absolute bottom-full left-4 mb-1 flex items-center gap-2 text-xs text-gray-400"
+              >
+                <span className="flex gap-0.5">
+                  {[0, 1, 2].map((dot) => (
+                    <motion.span
+                      key={dot}
+                      className="w-1.5 h-1.5 rounded-full bg-gray-400"
+                      animate={{ opacity: [0.3, 1, 0.3] }}
+                      transition={{ duration: 1, repeat: Infinity, delay: dot * 0.2 }}
+                    />
+                  ))}
+                </span>
+                {describeTyping(typingUsers, profiles)}
+              </motion.div>
+            )}
+          </AnimatePresence>
           <AnimatePresence>
             {showEmojiPicker && (
               <motion.div 
@@ -259,8 +648,31 @@ export default function Chat({ session, roomId }: ChatProps) {
               </motion.div>
             )}
           </AnimatePresence>
+          <UploadTray
+            items={uploads.items}
+            onRemove={uploads.removeItem}
+            onRetry={uploads.retryItem}
+          />
+          <AnimatePresence>
+            {mentionSuggestions.length > 0 && (
+              <MentionSuggestions
+                suggestions={mentionSuggestions}
+                profiles={profiles}
+                activeIndex={mentionIndex}
+                onSelect={insertMention}
+              />
+            )}
+          </AnimatePresence>
+          {showPreview && newMessage.trim() && (
+            <div className="mx-4 mt-3 p-3 max-h-48 overflow-y-auto rounded-xl bg-gray-800/80 border border-gray-700 text-gray-100">
+              <MessageContent
+                content={encodeMentions(newMessage, mentionCandidates)}
+                currentUserId={session.user.id}
+              />
+            </div>
+          )}
           <form onSubmit={handleSend} className="p-4 border-t border-gray-700/50">
-            <div className="flex gap-2">
+            <div className="flex items-end gap-2">
               <motion.button
                 type="button"
                 onClick={() => setShowEmojiPicker(!showEmojiPicker)}
@@ -274,31 +686,50 @@ export default function Chat({ session, roomId }: ChatProps) {
                 <input
                   type="file"
                   ref={fileInputRef}
-                  onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0])}
-                  accept="image/*"
+                  onChange={handleFileSelect}
+                  accept={ALLOWED_ATTACHMENT_TYPES.join(',')}
+                  multiple
                   className="hidden"
                 />
                 <motion.button
                   type="button"
                   onClick={() => fileInputRef.current?.click()}
-                  disabled={isUploading}
                   whileHover={{ scale: 1.1 }}
                   whileTap={{ scale: 0.95 }}
                   className="p-3 bg-gray-800 rounded-xl hover:bg-gray-700 transition-all duration-200 hover:shadow-lg hover:shadow-blue-500/10"
                 >
-                  {isUploading ? (
+                  {uploads.isUploading ? (
                     <Loader2 className="w-5 h-5 animate-spin" />
                   ) : (
-                    <ImageIcon className="w-5 h-5" />
+                    <Paperclip className="w-5 h-5" />
                   )}
                 </motion.button>
               </div>
-              <input
-                type="text"
+              <motion.button
+                type="button"
+                onClick={() => setShowPreview(!showPreview)}
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.95 }}
+                className={`p-3 rounded-xl transition-all duration-200 hover:shadow-lg hover:shadow-blue-500/10 ${
+                  showPreview ? 'bg-blue-500/20 text-blue-400' : 'bg-gray-800 hover:bg-gray-700'
+                }`}
+                title={showPreview ? 'Hide preview' : 'Preview formatting'}
+              >
+                {showPreview ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </motion.button>
+              <textarea
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                placeholder="Type a message..."
-                className="flex-1 px-4 py-2 bg-gray-800 rounded-xl border border-gray-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
+                ref={composerRef}
+                onChange={handleComposerChange}
+                onKeyDown={handleComposerKeyDown}
+                onBlur={() => {
+                  stopTyping();
+                  setMentionQuery(null);
+                }}
+                onPaste={handlePaste}
+                rows={Math.min(MAX_COMPOSER_ROWS, newMessage.split('\n').length)}
+                placeholder={uploads.hasQueuedFiles ? 'Add a caption (optional)...' : 'Type a message...'}
+                className="flex-1 px-4 py-2.5 bg-gray-800 rounded-xl border border-gray-700 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 resize-none"
               />
               <motion.button
                 type="submit"
@@ -312,6 +743,15 @@ export default function Chat({ session, roomId }: ChatProps) {
           </form>
         </div>
       </div>
+      <RoomMembers
+        roomId={roomId}
+        currentUserId={session.user.id}
+        canLeave={!isDirect && room?.owner_id !== session.user.id}
+        onlineMembers={onlineMembers}
+        profiles={profiles}
+        onLeave={onLeave}
+        onMemberClick={handleStartDirect}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { MessagesSquare } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { DirectConversation, listDirectConversations } from '../lib/repository/rooms';
+import { useProfiles } from '../hooks/useProfiles';
+import Avatar from './Avatar';
+
+interface DirectMessageListProps {
+  session: Session;
+  unreadCounts: Record<string, number>;
+  onRoomSelect: (roomId: string) => void;
+}
+
+export default function DirectMessageList({
+  session,
+  unreadCounts,
+  onRoomSelect
+}: DirectMessageListProps) {
+  const [conversations, setConversations] = useState<DirectConversation[]>([]);
+
+  const partnerId = (conversation: DirectConversation) =>
+    conversation.room_users.find((member) => member.user_id !== session.user.id)?.user_id ??
+    session.user.id;
+
+  const profiles = useProfiles(conversations.map(partnerId));
+
+  useEffect(() => {
+    const fetchConversations = async () => {
+      try {
+        setConversations(await listDirectConversations());
+      } catch {
+        toast.error('Failed to fetch direct messages');
+      }
+    };
+
+    fetchConversations();
+
+    const channel = supabase
+      .channel('direct-conversations')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'rooms', filter: 'kind=eq.direct' },
+        () => {
+          fetchConversations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, []);
+
+  if (conversations.length === 0) return null;
+
+  const sortedConversations = [...conversations].sort(
+    (a, b) => (unreadCounts[b.id] ?? 0) - (unreadCounts[a.id] ?? 0)
+  );
+
+  return (
+    <div className="bg-gradient-to-br from-gray-800/50 to-gray-900/50 backdrop-blur-lg rounded-2xl shadow-2xl border border-gray-700/50 p-6 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <MessagesSquare className="w-5 h-5 text-blue-400" />
+        <h2 className="text-lg font-semibold">Direct Messages</h2>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {sortedConversations.map((conversation) => {
+          const otherUserId = partnerId(conversation);
+          const unread = unreadCounts[conversation.id] ?? 0;
+
+          return (
+            <motion.button
+              key={conversation.id}
+              type="button"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => onRoomSelect(conversation.id)}
+              className="relative shrink-0 w-24 p-3 rounded-xl bg-gray-800/50 border border-gray-700/50 hover:border-blue-500/50 transition-colors flex flex-col items-center gap-2"
+            >
+              <Avatar userId={otherUserId} profile={profiles[otherUserId]} size="md" />
+              <span className="text-xs text-gray-300 truncate w-full text-center">
+                {profiles[otherUserId]?.display_name ?? '…'}
+              </span>
+              {unread > 0 && (
+                <span className="absolute top-1 right-1 min-w-[1.25rem] px-1.5 py-0.5 bg-red-500 text-white text-[10px] font-bold rounded-full shadow-lg shadow-red-500/30">
+                  {unread > 99 ? '99+' : unread}
+                </span>
+              )}
+            </motion.button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect } from 'react';
+import { X, Download, Loader2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useSignedUrl } from '../hooks/useSignedUrl';
+
+interface ImageLightboxProps {
+  path: string;
+  previewUrl: string | null;
+  fileName: string | null;
+  onClose: () => void;
+}
+
+export default function ImageLightbox({ path, previewUrl, fileName, onClose }: ImageLightboxProps) {
+  const url = useSignedUrl(path);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center p-8 z-50"
+    >
+      <div className="absolute top-4 right-4 flex gap-2">
+        {url && (
+          <a
+            href={url}
+            download={fileName ?? undefined}
+            onClick={(e) => e.stopPropagation()}
+            className="p-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+            aria-label="Download image"
+          >
+            <Download className="w-5 h-5" />
+          </a>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+          aria-label="Close"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      {/* Show the cached thumbnail scaled up until the full image arrives */}
+      {url || previewUrl ? (
+        <motion.img
+          initial={{ scale: 0.95 }}
+          animate={{ scale: 1 }}
+          src={url ?? previewUrl ?? undefined}
+          alt={fileName ?? 'Shared image'}
+          onClick={(e) => e.stopPropagation()}
+          className="max-w-full max-h-full object-contain rounded-lg shadow-2xl"
+        />
+      ) : (
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+      )}
+    </motion.div>
+  );
+}
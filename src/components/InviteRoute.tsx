@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { showError } from '../lib/errors';
+import { redeemInvite } from '../lib/repository/rooms';
+import { ROOMS_PATH, roomPath } from '../lib/routes';
+
+/**
+ * Redeems the invite from `/invite/:token` and opens the joined room.
+ * Signed-out visitors are sent here again after signing in.
+ */
+export default function InviteRoute() {
+  const { token = '' } = useParams();
+  const navigate = useNavigate();
+  // Strict mode runs effects twice; the invite should only be redeemed once
+  const redeemedTokenRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (redeemedTokenRef.current === token) return;
+    redeemedTokenRef.current = token;
+
+    const redeem = async () => {
+      try {
+        const roomId = await redeemInvite(token);
+        toast.success('Joined room from invite');
+        navigate(roomPath(roomId), { replace: true });
+      } catch (error) {
+        showError(error);
+        navigate(ROOMS_PATH, { replace: true });
+      }
+    };
+
+    redeem();
+  }, [token, navigate]);
+
+  return (
+    <div className="flex justify-center py-16">
+      <Loader2 className="w-8 h-8 text-blue-400 animate-spin" />
+    </div>
+  );
+}
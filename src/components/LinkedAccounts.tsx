@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useState } from 'react';
+import { UserIdentity } from '@supabase/supabase-js';
+import { Link2, Mail, Unlink } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { showError } from '../lib/errors';
+import { OAUTH_PROVIDERS, OAuthProvider, providerLabel } from '../lib/authProviders';
+import { PROFILE_SETTINGS_PATH, authCallbackUrl, rememberReturnPath } from '../lib/routes';
+
+/**
+ * Lists the sign-in methods attached to the account and lets the user link
+ * or unlink OAuth providers. Linking requires manual linking to be enabled
+ * in Supabase Auth.
+ */
+export default function LinkedAccounts() {
+  const [identities, setIdentities] = useState<UserIdentity[]>([]);
+  const [busyIdentityId, setBusyIdentityId] = useState<string | null>(null);
+
+  const fetchIdentities = useCallback(async () => {
+    const { data, error } = await supabase.auth.getUserIdentities();
+
+    if (error) {
+      toast.error('Failed to fetch linked accounts');
+      return;
+    }
+
+    setIdentities(data.identities);
+  }, []);
+
+  useEffect(() => {
+    fetchIdentities();
+  }, [fetchIdentities]);
+
+  const handleLink = async (provider: OAuthProvider) => {
+    // The provider sends the browser back through the auth callback
+    rememberReturnPath(PROFILE_SETTINGS_PATH);
+    const { error } = await supabase.auth.linkIdentity({
+      provider: provider.id,
+      options: { redirectTo: authCallbackUrl() }
+    });
+
+    if (error) {
+      showError(error);
+    }
+  };
+
+  const handleUnlink = async (identity: UserIdentity) => {
+    setBusyIdentityId(identity.identity_id);
+    try {
+      const { error } = await supabase.auth.unlinkIdentity(identity);
+      if (error) throw error;
+
+      toast.success(`${providerLabel(identity.provider)} unlinked`);
+      await fetchIdentities();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusyIdentityId(null);
+    }
+  };
+
+  const unlinkedProviders = OAUTH_PROVIDERS.filter(
+    (provider) => !identities.some((identity) => identity.provider === provider.id)
+  );
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold">Linked Accounts</h3>
+
+      <ul className="space-y-2">
+        {identities.map((identity) => {
+          const Icon =
+            OAUTH_PROVIDERS.find((provider) => provider.id === identity.provider)?.icon ?? Mail;
+
+          return (
+            <li
+              key={identity.identity_id}
+              className="flex items-center gap-3 p-3 rounded-xl bg-gray-700/40"
+            >
+              <Icon className="w-5 h-5 text-blue-400 shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm">{providerLabel(identity.provider)}</p>
+                {typeof identity.identity_data?.email === 'string' && (
+                  <p className="text-xs text-gray-400 truncate">{identity.identity_data.email}</p>
+                )}
+              </div>
+              {/* Supabase refuses to remove the last way of signing in */}
+              {identities.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => handleUnlink(identity)}
+                  disabled={busyIdentityId === identity.identity_id}
+                  className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-gray-700 transition-colors"
+                  title="Unlink"
+                >
+                  <Unlink className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {unlinkedProviders.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {unlinkedProviders.map((provider) => (
+            <button
+              key={provider.id}
+              type="button"
+              onClick={() => handleLink(provider)}
+              className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl text-sm transition-colors flex items-center gap-2"
+            >
+              <Link2 className="w-4 h-4" />
+              Link {provider.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
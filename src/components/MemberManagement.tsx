@@ -0,0 +1,286 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Crown, Shield, ShieldOff, UserX, Ban, Undo2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-hot-toast';
+import { showError } from '../lib/errors';
+import {
+  Member,
+  RoomBan,
+  RoomRole,
+  banMember,
+  kickMember,
+  listActiveBans,
+  listMembers,
+  setMemberRole,
+  unbanMember
+} from '../lib/repository/memberships';
+import { useProfiles } from '../hooks/useProfiles';
+import Avatar from './Avatar';
+
+const ROLE_RANK: Record<RoomRole, number> = { owner: 3, moderator: 2, member: 1 };
+
+// Values are passed to Postgres as intervals; null means permanent
+const BAN_DURATIONS: { label: string; value: string | null }[] = [
+  { label: '1 hour', value: '1 hour' },
+  { label: '1 day', value: '1 day' },
+  { label: '7 days', value: '7 days' },
+  { label: '30 days', value: '30 days' },
+  { label: 'Permanent', value: null }
+];
+
+interface MemberManagementProps {
+  roomId: string;
+  currentUserId: string;
+  currentRole: RoomRole;
+}
+
+export default function MemberManagement({
+  roomId,
+  currentUserId,
+  currentRole
+}: MemberManagementProps) {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [bans, setBans] = useState<RoomBan[]>([]);
+  const [banTarget, setBanTarget] = useState<string | null>(null);
+  const [banDuration, setBanDuration] = useState<string | null>('1 day');
+  const [banReason, setBanReason] = useState('');
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const profiles = useProfiles([
+    ...members.map((member) => member.user_id),
+    ...bans.map((ban) => ban.user_id)
+  ]);
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      const [memberList, banList] = await Promise.all([
+        listMembers(roomId),
+        listActiveBans(roomId)
+      ]);
+
+      setMembers(memberList.sort((a, b) => ROLE_RANK[b.role] - ROLE_RANK[a.role]));
+      setBans(banList);
+    } catch {
+      toast.error('Failed to fetch members');
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const runAction = async (
+    userId: string,
+    action: () => Promise<void>,
+    successMessage: string
+  ) => {
+    setBusyUserId(userId);
+    try {
+      await action();
+
+      toast.success(successMessage);
+      await fetchMembers();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleSetRole = (userId: string, role: 'moderator' | 'member') =>
+    runAction(
+      userId,
+      () => setMemberRole(roomId, userId, role),
+      role === 'moderator' ? 'Promoted to moderator' : 'Demoted to member'
+    );
+
+  const handleKick = (userId: string) =>
+    runAction(
+      userId,
+      () => kickMember(roomId, userId),
+      'Member removed from the room'
+    );
+
+  const handleBan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!banTarget) return;
+
+    await runAction(
+      banTarget,
+      () => banMember(roomId, banTarget, banDuration, banReason),
+      'Member banned'
+    );
+    setBanTarget(null);
+    setBanReason('');
+  };
+
+  const handleUnban = (userId: string) =>
+    runAction(
+      userId,
+      () => unbanMember(roomId, userId),
+      'Ban lifted'
+    );
+
+  const canModerate = (member: Member) =>
+    member.user_id !== currentUserId && ROLE_RANK[currentRole] > ROLE_RANK[member.role];
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2 max-h-72 overflow-y-auto pr-1">
+        {members.map((member) => (
+          <li
+            key={member.user_id}
+            className="flex items-center gap-3 p-2 rounded-xl bg-gray-700/40"
+          >
+            <Avatar userId={member.user_id} profile={profiles[member.user_id]} />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm truncate">
+                {profiles[member.user_id]?.display_name ?? '…'}
+                {member.user_id === currentUserId && (
+                  <span className="text-gray-500"> (you)</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-400 flex items-center gap-1 capitalize">
+                {member.role === 'owner' && <Crown className="w-3 h-3 text-yellow-400" />}
+                {member.role === 'moderator' && <Shield className="w-3 h-3 text-blue-400" />}
+                {member.role}
+              </p>
+            </div>
+            {canModerate(member) && (
+              <div className="flex items-center gap-1">
+                {currentRole === 'owner' && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      handleSetRole(
+                        member.user_id,
+                        member.role === 'moderator' ? 'member' : 'moderator'
+                      )
+                    }
+                    disabled={busyUserId === member.user_id}
+                    className="p-2 rounded-lg text-gray-400 hover:text-blue-400 hover:bg-gray-700 transition-colors"
+                    title={member.role === 'moderator' ? 'Demote to member' : 'Promote to moderator'}
+                  >
+                    {member.role === 'moderator' ? (
+                      <ShieldOff className="w-4 h-4" />
+                    ) : (
+                      <Shield className="w-4 h-4" />
+                    )}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleKick(member.user_id)}
+                  disabled={busyUserId === member.user_id}
+                  className="p-2 rounded-lg text-gray-400 hover:text-yellow-400 hover:bg-gray-700 transition-colors"
+                  title="Kick"
+                >
+                  <UserX className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setBanTarget(member.user_id)}
+                  disabled={busyUserId === member.user_id}
+                  className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-gray-700 transition-colors"
+                  title="Ban"
+                >
+                  <Ban className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {bans.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">Banned</h4>
+          <ul className="space-y-2">
+            {bans.map((ban) => (
+              <li key={ban.user_id} className="flex items-center gap-3 p-2 rounded-xl bg-red-500/10">
+                <Avatar userId={ban.user_id} profile={profiles[ban.user_id]} />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm truncate">{profiles[ban.user_id]?.display_name ?? '…'}</p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {ban.expires_at
+                      ? `Until ${new Date(ban.expires_at).toLocaleString()}`
+                      : 'Permanent'}
+                    {ban.reason && ` · ${ban.reason}`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleUnban(ban.user_id)}
+                  disabled={busyUserId === ban.user_id}
+                  className="p-2 rounded-lg text-gray-400 hover:text-green-400 hover:bg-gray-700 transition-colors"
+                  title="Lift ban"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Ban Modal */}
+      {banTarget && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            className="bg-gray-800 rounded-2xl p-6 max-w-sm w-full"
+          >
+            <h3 className="text-xl font-bold mb-4 flex items-center gap-2 text-red-400">
+              <Ban className="w-5 h-5" />
+              Ban {profiles[banTarget]?.display_name ?? 'member'}
+            </h3>
+            <form onSubmit={handleBan} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Duration</label>
+                <select
+                  value={banDuration ?? ''}
+                  onChange={(e) => setBanDuration(e.target.value || null)}
+                  className="w-full px-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-red-500 focus:ring-2 focus:ring-red-500/20 outline-none transition-all duration-200"
+                >
+                  {BAN_DURATIONS.map((duration) => (
+                    <option key={duration.label} value={duration.value ?? ''}>
+                      {duration.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">
+                  Reason (optional)
+                </label>
+                <input
+                  type="text"
+                  value={banReason}
+                  onChange={(e) => setBanReason(e.target.value)}
+                  className="w-full px-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-red-500 focus:ring-2 focus:ring-red-500/20 outline-none transition-all duration-200"
+                />
+              </div>
+              <div className="flex gap-2 justify-end">
+                <button
+                  type="button"
+                  onClick={() => setBanTarget(null)}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={busyUserId === banTarget}
+                  className="px-4 py-2 bg-red-500 hover:bg-red-600 rounded-xl text-white font-semibold transition-colors flex items-center gap-2"
+                >
+                  <Ban className="w-4 h-4" />
+                  Ban
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { motion } from 'framer-motion';
+import type { Profile } from '../lib/repository/profiles';
+import type { MentionCandidate } from '../lib/mentions';
+import Avatar from './Avatar';
+
+interface MentionSuggestionsProps {
+  suggestions: MentionCandidate[];
+  profiles: Record<string, Profile>;
+  activeIndex: number;
+  onSelect: (candidate: MentionCandidate) => void;
+}
+
+export default function MentionSuggestions({
+  suggestions,
+  profiles,
+  activeIndex,
+  onSelect
+}: MentionSuggestionsProps) {
+  return (
+    <motion.ul
+      initial={{ opacity: 0, y: 5 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 5 }}
+      role="listbox"
+      className="absolute bottom-full left-4 mb-2 w-64 p-1 bg-gray-800 border border-gray-700 rounded-xl shadow-xl z-30"
+    >
+      {suggestions.map((candidate, index) => (
+        <li key={candidate.id} role="option" aria-selected={index === activeIndex}>
+          <button
+            type="button"
+            // Keep focus in the composer so the caret position survives
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(candidate)}
+            className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+              index === activeIndex ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/60'
+            }`}
+          >
+            <Avatar userId={candidate.id} profile={profiles[candidate.id]} size="xs" />
+            <span className="truncate">{candidate.name}</span>
+          </button>
+        </li>
+      ))}
+    </motion.ul>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { AtSign, X, Hash, MessagesSquare, Loader2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-hot-toast';
+import { Mention, listMentions } from '../lib/repository/messages';
+import { useProfiles } from '../hooks/useProfiles';
+import Avatar from './Avatar';
+import MessageContent from './MessageContent';
+
+// How many of the most recent mentions the inbox shows
+const INBOX_LIMIT = 50;
+
+interface MentionsInboxProps {
+  session: Session;
+  onOpenRoom: (roomId: string) => void;
+  onClose: () => void;
+}
+
+export default function MentionsInbox({ session, onOpenRoom, onClose }: MentionsInboxProps) {
+  const [mentions, setMentions] = useState<Mention[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const profiles = useProfiles(mentions.map((mention) => mention.user_id));
+
+  useEffect(() => {
+    const fetchMentions = async () => {
+      try {
+        setMentions(await listMentions(session.user.id, INBOX_LIMIT));
+      } catch {
+        toast.error('Failed to fetch mentions');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchMentions();
+  }, [session.user.id]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-gray-800 rounded-2xl p-6 max-w-lg w-full max-h-[90vh] flex flex-col"
+      >
+        <div className="flex items-center gap-2 mb-6">
+          <AtSign className="w-6 h-6 text-yellow-400" />
+          <h2 className="text-xl font-bold">Mentions</h2>
+          <button
+            onClick={onClose}
+            className="ml-auto p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : mentions.length === 0 ? (
+          <p className="text-center text-gray-400 py-8">Nobody has mentioned you yet</p>
+        ) : (
+          <ul className="space-y-2 overflow-y-auto pr-1">
+            {mentions.map((mention) => (
+              <li key={mention.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onOpenRoom(mention.room_id);
+                    onClose();
+                  }}
+                  className="w-full text-left p-3 rounded-xl bg-gray-700/40 hover:bg-gray-700/70 transition-colors"
+                >
+                  <div className="flex items-center gap-2 mb-1 text-xs text-gray-400">
+                    {mention.rooms?.kind === 'direct' ? (
+                      <MessagesSquare className="w-3.5 h-3.5" />
+                    ) : (
+                      <Hash className="w-3.5 h-3.5" />
+                    )}
+                    <span className="truncate">
+                      {mention.rooms?.kind === 'direct' ? 'Direct message' : mention.rooms?.name}
+                    </span>
+                    <span className="ml-auto shrink-0">
+                      {new Date(mention.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <Avatar userId={mention.user_id} profile={profiles[mention.user_id]} size="sm" />
+                    <div className="min-w-0 flex-1 text-sm">
+                      <p className="font-medium">{profiles[mention.user_id]?.display_name ?? '…'}</p>
+                      <div className="text-gray-200 line-clamp-4">
+                        <MessageContent content={mention.content} currentUserId={session.user.id} />
+                      </div>
+                    </div>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+    </div>
+  );
+}
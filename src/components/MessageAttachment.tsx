@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FileText, Download, Loader2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Message } from '../lib/repository/messages';
+import { useSignedUrl } from '../hooks/useSignedUrl';
+import { LEGACY_IMAGES_BUCKET, legacyImagePath } from '../lib/repository/storage';
+import { formatFileSize } from '../lib/attachments';
+import ImageLightbox from './ImageLightbox';
+
+// Widest an image preview is drawn in the chat, in px
+const PREVIEW_WIDTH = 320;
+
+interface MessageAttachmentProps {
+  message: Message;
+}
+
+export default function MessageAttachment({ message }: MessageAttachmentProps) {
+  const [showLightbox, setShowLightbox] = useState(false);
+  const [isThumbnailLoaded, setIsThumbnailLoaded] = useState(false);
+  const signedUrl = useSignedUrl(message.thumbnail_path ? null : message.file_path);
+  const thumbnailUrl = useSignedUrl(message.thumbnail_path);
+  // Images sent before attachments point into the legacy bucket
+  const legacyUrl = useSignedUrl(
+    message.file_path ? null : legacyImagePath(message.image_url),
+    LEGACY_IMAGES_BUCKET
+  );
+  const url = message.file_path ? signedUrl : legacyUrl;
+
+  if (message.message_type === 'image' && message.file_path && message.thumbnail_path) {
+    const width = message.image_width ?? PREVIEW_WIDTH;
+    const height = message.image_height ?? PREVIEW_WIDTH;
+
+    // The box is sized from the stored dimensions up front so nothing
+    // below it moves when the thumbnail arrives
+    return (
+      <>
+        <button
+          type="button"
+          onClick={() => setShowLightbox(true)}
+          className="relative block max-w-full overflow-hidden rounded-lg bg-gray-900/30"
+          style={{ width: Math.min(width, PREVIEW_WIDTH), aspectRatio: `${width} / ${height}` }}
+          aria-label="Open image"
+        >
+          {message.blur_placeholder?.startsWith('data:image/') && (
+            <img
+              src={message.blur_placeholder}
+              alt=""
+              aria-hidden
+              className="absolute inset-0 w-full h-full object-cover blur-lg scale-110"
+            />
+          )}
+          {thumbnailUrl && (
+            <img
+              src={thumbnailUrl}
+              alt={message.file_name ?? 'Shared image'}
+              onLoad={() => setIsThumbnailLoaded(true)}
+              className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 ${
+                isThumbnailLoaded ? 'opacity-100' : 'opacity-0'
+              }`}
+            />
+          )}
+        </button>
+        {/* Portalled so the bubble's hover transform cannot trap the overlay */}
+        {createPortal(
+          <AnimatePresence>
+            {showLightbox && (
+              <ImageLightbox
+                path={message.file_path}
+                previewUrl={thumbnailUrl}
+                fileName={message.file_name}
+                onClose={() => setShowLightbox(false)}
+              />
+            )}
+          </AnimatePresence>,
+          document.body
+        )}
+      </>
+    );
+  }
+
+  if (message.message_type === 'image') {
+    if (!url) {
+      return (
+        <div className="w-48 h-32 rounded-lg bg-gray-900/30 flex items-center justify-center">
+          <Loader2 className="w-5 h-5 animate-spin opacity-60" />
+        </div>
+      );
+    }
+
+    return (
+      <motion.img
+        initial={{ opacity: 0, scale: 0.8 }}
+        animate={{ opacity: 1, scale: 1 }}
+        src={url}
+        alt={message.file_name ?? 'Shared image'}
+        className="rounded-lg max-w-full h-auto"
+        loading="lazy"
+      />
+    );
+  }
+
+  return (
+    <a
+      href={url ?? undefined}
+      download={message.file_name ?? undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`flex items-center gap-3 p-3 rounded-xl bg-gray-900/30 hover:bg-gray-900/50 transition-colors ${
+        url ? '' : 'pointer-events-none opacity-70'
+      }`}
+    >
+      <FileText className="w-8 h-8 shrink-0" />
+      <div className="min-w-0">
+        <p className="font-medium truncate">{message.file_name}</p>
+        <p className="text-xs opacity-70">
+          {message.file_size !== null ? formatFileSize(message.file_size) : ''}
+          {message.file_mime && ` · ${message.file_mime}`}
+        </p>
+      </div>
+      {url ? (
+        <Download className="w-5 h-5 shrink-0 opacity-80" />
+      ) : (
+        <Loader2 className="w-5 h-5 shrink-0 animate-spin opacity-60" />
+      )}
+    </a>
+  );
+}
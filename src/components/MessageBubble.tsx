@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { Pencil, Trash2, Check, X, Ban, Clock, AlertCircle, RotateCcw } from 'lucide-react';
+import { motion } from 'framer-motion';
+import type { Message, Reaction } from '../lib/repository/messages';
+import type { OutboxStatus } from '../lib/outbox';
+import type { Profile } from '../lib/repository/profiles';
+import { useProfiles } from '../hooks/useProfiles';
+import { decodeMentions, mentionedUserIds } from '../lib/mentions';
+import MessageReactions from './MessageReactions';
+import Avatar from './Avatar';
+import MessageAttachment from './MessageAttachment';
+import MessageContent from './MessageContent';
+
+interface PendingState {
+  status: OutboxStatus;
+  error: string | null;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+interface MessageBubbleProps {
+  message: Message;
+  author?: Profile;
+  currentUserId: string;
+  canDelete: boolean;
+  reactions: Reaction[];
+  onToggleReaction: (emoji: string) => void;
+  onEdit: (content: string) => Promise<boolean>;
+  onDelete: () => void;
+  onAuthorClick: () => void;
+  // Set while the message is still in the outbox
+  pending?: PendingState;
+}
+
+export default function MessageBubble({
+  message,
+  author,
+  currentUserId,
+  canDelete,
+  reactions,
+  onToggleReaction,
+  onEdit,
+  onDelete,
+  onAuthorClick,
+  pending
+}: MessageBubbleProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [isSaving, setIsSaving] = useState(false);
+  const isOwnMessage = message.user_id === currentUserId;
+  const isDeleted = message.deleted_at !== null;
+  const canEdit = isOwnMessage && message.message_type === 'text' && !isDeleted;
+  const isMentioned = message.mentions.includes(currentUserId);
+  const mentionedProfiles = useProfiles(mentionedUserIds(message.content));
+  // What the author sees in the editor: mentions as `@Name` rather than tokens
+  const editableContent = decodeMentions(
+    message.content,
+    Object.fromEntries(
+      Object.values(mentionedProfiles).map((profile) => [profile.id, profile.display_name])
+    )
+  );
+
+  const startEditing = () => {
+    setDraft(editableContent);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || draft === editableContent) {
+      setIsEditing(false);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await onEdit(draft);
+    setIsSaving(false);
+    if (saved) {
+      setIsEditing(false);
+    }
+  };
+
+  // Same keys as the composer: Enter saves, Shift+Enter adds a line
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      setIsEditing(false);
+    } else if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  return (
+    <div
+      className={`group max-w-[70%] flex flex-col ${
+        isOwnMessage ? 'items-end' : 'items-start'
+      }`}
+    >
+      <div className={`flex items-center gap-1 ${isOwnMessage ? 'flex-row' : 'flex-row-reverse'}`}>
+        {!pending && !isDeleted && !isEditing && (canEdit || canDelete) && (
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {canEdit && (
+              <button
+                type="button"
+                onClick={startEditing}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700/80 transition-colors"
+                aria-label="Edit message"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+            {canDelete && (
+              <button
+                type="button"
+                onClick={onDelete}
+                className="p-1.5 rounded-lg text-gray-400 hover:text-red-400 hover:bg-gray-700/80 transition-colors"
+                aria-label="Delete message"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        )}
+        <motion.div
+          whileHover={isEditing ? undefined : { scale: 1.02 }}
+          className={`max-w-full rounded-2xl p-4 ${isMentioned && !isDeleted ? 'ring-2 ring-yellow-400/70' : ''} ${
+            pending?.status === 'sending' ? 'opacity-60' : ''
+          } ${pending?.status === 'failed' ? 'ring-2 ring-red-500/70' : ''} ${
+            isDeleted
+              ? 'bg-gray-800/40 text-gray-500 border border-gray-700/50'
+              : isOwnMessage
+                ? 'bg-gradient-to-r from-blue-500 to-purple-600 text-white'
+                : 'bg-gray-800/80 text-gray-100'
+          }`}
+        >
+          {isOwnMessage ? (
+            <div className="flex items-center gap-2 mb-1">
+              <Avatar userId={message.user_id} profile={author} size="xs" />
+              <p className="text-sm font-medium opacity-80">{author?.display_name ?? '…'}</p>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={onAuthorClick}
+              className="flex items-center gap-2 mb-1 hover:underline"
+              title="Send a direct message"
+            >
+              <Avatar userId={message.user_id} profile={author} size="xs" />
+              <span className="text-sm font-medium opacity-80">{author?.display_name ?? '…'}</span>
+            </button>
+          )}
+          {isDeleted ? (
+            <p className="italic flex items-center gap-2">
+              <Ban className="w-4 h-4" />
+              message deleted
+            </p>
+          ) : isEditing ? (
+            <form onSubmit={handleSave} className="flex items-end gap-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleEditKeyDown}
+                rows={Math.min(8, draft.split('\n').length)}
+                autoFocus
+                disabled={isSaving}
+                className="flex-1 min-w-0 px-3 py-1 bg-gray-900/40 rounded-lg border border-white/20 focus:border-white/50 outline-none text-white resize-none"
+              />
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="p-1 rounded-lg hover:bg-white/20 transition-colors"
+                aria-label="Save edit"
+              >
+                <Check className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                disabled={isSaving}
+                className="p-1 rounded-lg hover:bg-white/20 transition-colors"
+                aria-label="Cancel edit"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </form>
+          ) : message.message_type !== 'text' ? (
+            <>
+              <MessageAttachment message={message} />
+              {message.file_path && message.content.trim() && (
+                <div className="mt-2">
+                  <MessageContent content={message.content} currentUserId={currentUserId} />
+                </div>
+              )}
+            </>
+          ) : (
+            <MessageContent content={message.content} currentUserId={currentUserId} />
+          )}
+          {message.edited_at && !isDeleted && (
+            <p
+              className="text-xs opacity-60 mt-1"
+              title={new Date(message.edited_at).toLocaleString()}
+            >
+              edited
+            </p>
+          )}
+        </motion.div>
+      </div>
+      {pending?.status === 'sending' && (
+        <p className="mt-1 text-xs text-gray-400 flex items-center gap-1">
+          <Clock className="w-3 h-3" />
+          Sending…
+        </p>
+      )}
+      {pending?.status === 'failed' && (
+        <div className="mt-1 flex items-center gap-2 text-xs">
+          <span className="text-red-400 flex items-center gap-1" title={pending.error ?? undefined}>
+            <AlertCircle className="w-3 h-3" />
+            Not sent
+          </span>
+          <button
+            type="button"
+            onClick={pending.onRetry}
+            className="flex items-center gap-1 text-gray-300 hover:text-white transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Retry
+          </button>
+          <button
+            type="button"
+            onClick={pending.onDiscard}
+            className="flex items-center gap-1 text-gray-300 hover:text-red-400 transition-colors"
+          >
+            <Trash2 className="w-3 h-3" />
+            Discard
+          </button>
+        </div>
+      )}
+      {!pending && !isDeleted && (
+        <MessageReactions
+          reactions={reactions}
+          currentUserId={currentUserId}
+          isOwnMessage={isOwnMessage}
+          onToggle={onToggleReaction}
+        />
+      )}
+    </div>
+  );
+}
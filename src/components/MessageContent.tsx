@@ -0,0 +1,146 @@
+import { useMemo } from 'react';
+import ReactMarkdown, { Components, defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import 'highlight.js/styles/github-dark.css';
+import { useProfiles } from '../hooks/useProfiles';
+import { mentionedUserIds, splitMentions } from '../lib/mentions';
+
+// The supported Markdown subset; anything else (headings, tables, images,
+// raw HTML) is reduced to its text. `span` carries syntax highlighting.
+const ALLOWED_ELEMENTS = [
+  'p',
+  'br',
+  'strong',
+  'em',
+  'code',
+  'pre',
+  'span',
+  'ul',
+  'ol',
+  'li',
+  'blockquote',
+  'a'
+];
+
+const MENTION_PROTOCOL = 'mention:';
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+// Replaces `<@user_id>` tokens in text nodes with links to a `mention:` URL,
+// leaving code and existing links untouched
+const remarkMentions = (names: Record<string, string>) => () => {
+  const visit = (node: MarkdownNode) => {
+    if (!node.children || node.type === 'link') return;
+
+    node.children = node.children.flatMap((child) => {
+      if (child.type !== 'text' || !child.value?.includes('<@')) {
+        visit(child);
+        return [child];
+      }
+
+      return splitMentions(child.value).map((part) =>
+        'userId' in part
+          ? {
+              type: 'link',
+              url: `${MENTION_PROTOCOL}${part.userId}`,
+              children: [{ type: 'text', value: `@${names[part.userId] ?? 'unknown'}` }]
+            }
+          : { type: 'text', value: part.text }
+      );
+    });
+  };
+
+  return (tree: MarkdownNode) => visit(tree);
+};
+
+const urlTransform = (url: string) =>
+  url.startsWith(MENTION_PROTOCOL) ? url : defaultUrlTransform(url);
+
+const baseComponents: Components = {
+  p: ({ children }) => <p className="break-words whitespace-pre-wrap">{children}</p>,
+  code: ({ className, children }) => (
+    <code className={`${className ?? ''} px-1 py-0.5 rounded bg-gray-950/40 font-mono text-[0.9em]`}>
+      {children}
+    </code>
+  ),
+  pre: ({ children }) => (
+    <pre className="my-1 p-3 rounded-lg bg-gray-950/70 overflow-x-auto text-sm [&>code]:p-0 [&>code]:bg-transparent [&>code.hljs]:p-0 [&>code.hljs]:bg-transparent">
+      {children}
+    </pre>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-5 space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 space-y-0.5">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-white/30 pl-3 opacity-80">{children}</blockquote>
+  )
+};
+
+interface MessageContentProps {
+  content: string;
+  currentUserId?: string;
+}
+
+/**
+ * Renders message text as sanitized Markdown. Raw HTML is never rendered
+ * and unsafe link protocols are stripped by react-markdown. Mentions show
+ * the mentioned user's current display name.
+ */
+export default function MessageContent({ content, currentUserId }: MessageContentProps) {
+  const profiles = useProfiles(mentionedUserIds(content));
+  const names = Object.fromEntries(
+    Object.values(profiles).map((profile) => [profile.id, profile.display_name])
+  );
+  const namesKey = JSON.stringify(names);
+
+  const components = useMemo<Components>(
+    () => ({
+      ...baseComponents,
+      a: ({ href, children }) =>
+        href?.startsWith(MENTION_PROTOCOL) ? (
+          <span
+            className={`px-1 rounded font-semibold ${
+              href.slice(MENTION_PROTOCOL.length) === currentUserId
+                ? 'bg-yellow-400/30 text-yellow-100'
+                : 'bg-blue-400/20 text-blue-100'
+            }`}
+          >
+            {children}
+          </span>
+        ) : (
+          <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 hover:opacity-80 break-all"
+          >
+            {children}
+          </a>
+        )
+    }),
+    [currentUserId]
+  );
+
+  // Keyed on the serialized names so the plugin list only changes on renames
+  const remarkPlugins = useMemo(() => [remarkGfm, remarkMentions(JSON.parse(namesKey))], [namesKey]);
+
+  return (
+    <div className="space-y-2 min-w-0">
+      <ReactMarkdown
+        remarkPlugins={remarkPlugins}
+        rehypePlugins={[rehypeHighlight]}
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        urlTransform={urlTransform}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
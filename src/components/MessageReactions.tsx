@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { SmilePlus, Plus, X } from 'lucide-react';
+import EmojiPicker, { EmojiClickData } from 'emoji-picker-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Reaction } from '../lib/repository/messages';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉'];
+
+interface MessageReactionsProps {
+  reactions: Reaction[];
+  currentUserId: string;
+  isOwnMessage: boolean;
+  onToggle: (emoji: string) => void;
+}
+
+export default function MessageReactions({
+  reactions,
+  currentUserId,
+  isOwnMessage,
+  onToggle
+}: MessageReactionsProps) {
+  const [showQuickPick, setShowQuickPick] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+
+  // Group by emoji, keeping the order in which each emoji was first used
+  const groups = reactions
+    .slice()
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .reduce<{ emoji: string; count: number; reactedByMe: boolean }[]>((acc, reaction) => {
+      const group = acc.find((g) => g.emoji === reaction.emoji);
+      if (group) {
+        group.count += 1;
+        group.reactedByMe = group.reactedByMe || reaction.user_id === currentUserId;
+      } else {
+        acc.push({
+          emoji: reaction.emoji,
+          count: 1,
+          reactedByMe: reaction.user_id === currentUserId
+        });
+      }
+      return acc;
+    }, []);
+
+  const handlePick = (emoji: string) => {
+    onToggle(emoji);
+    setShowQuickPick(false);
+    setShowPicker(false);
+  };
+
+  return (
+    <div
+      className={`relative flex flex-wrap items-center gap-1 mt-1 ${
+        isOwnMessage ? 'justify-end' : 'justify-start'
+      }`}
+    >
+      {groups.map((group) => (
+        <motion.button
+          key={group.emoji}
+          type="button"
+          layout
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => onToggle(group.emoji)}
+          className={`px-2 py-0.5 rounded-full text-sm flex items-center gap-1 border transition-colors ${
+            group.reactedByMe
+              ? 'bg-blue-500/30 border-blue-400 text-white'
+              : 'bg-gray-800/80 border-gray-700 text-gray-300 hover:border-gray-500'
+          }`}
+        >
+          <span>{group.emoji}</span>
+          <span className="text-xs font-medium">{group.count}</span>
+        </motion.button>
+      ))}
+
+      <motion.button
+        type="button"
+        whileHover={{ scale: 1.1 }}
+        whileTap={{ scale: 0.95 }}
+        onClick={() => setShowQuickPick(!showQuickPick)}
+        className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-700/80 transition-colors"
+        aria-label="Add reaction"
+      >
+        <SmilePlus className="w-4 h-4" />
+      </motion.button>
+
+      <AnimatePresence>
+        {showQuickPick && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className={`absolute bottom-full mb-2 z-20 flex items-center gap-1 p-1 bg-gray-800 border border-gray-700 rounded-full shadow-xl ${
+              isOwnMessage ? 'right-0' : 'left-0'
+            }`}
+          >
+            {QUICK_REACTIONS.map((emoji) => (
+              <motion.button
+                key={emoji}
+                type="button"
+                whileHover={{ scale: 1.25 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => handlePick(emoji)}
+                className="w-8 h-8 flex items-center justify-center text-lg rounded-full hover:bg-gray-700 transition-colors"
+              >
+                {emoji}
+              </motion.button>
+            ))}
+            <button
+              type="button"
+              onClick={() => {
+                setShowQuickPick(false);
+                setShowPicker(true);
+              }}
+              className="w-8 h-8 flex items-center justify-center rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+              aria-label="More reactions"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showPicker && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className={`absolute bottom-full mb-2 z-30 ${isOwnMessage ? 'right-0' : 'left-0'}`}
+          >
+            <div className="relative">
+              <button
+                type="button"
+                onClick={() => setShowPicker(false)}
+                className="absolute -top-2 -right-2 z-10 p-1 bg-gray-700 rounded-full hover:bg-gray-600 transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+              <EmojiPicker
+                onEmojiClick={(emojiData: EmojiClickData) => handlePick(emojiData.emoji)}
+              />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
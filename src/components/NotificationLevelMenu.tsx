@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { Bell, BellOff, AtSign, Check } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { showError } from '../lib/errors';
+import {
+  NotificationLevel,
+  getNotificationLevel,
+  setNotificationLevel
+} from '../lib/repository/memberships';
+
+const LEVELS: { value: NotificationLevel; label: string; icon: typeof Bell }[] = [
+  { value: 'all', label: 'All messages', icon: Bell },
+  { value: 'mentions', label: 'Mentions only', icon: AtSign },
+  { value: 'muted', label: 'Muted', icon: BellOff }
+];
+
+interface NotificationLevelMenuProps {
+  roomId: string;
+  userId: string;
+}
+
+export default function NotificationLevelMenu({ roomId, userId }: NotificationLevelMenuProps) {
+  const [level, setLevel] = useState<NotificationLevel>('all');
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const fetchLevel = async () => {
+      const current = await getNotificationLevel(roomId, userId).catch(() => null);
+      if (current) {
+        setLevel(current);
+      }
+    };
+
+    fetchLevel();
+  }, [roomId, userId]);
+
+  const handleSelect = async (value: NotificationLevel) => {
+    setIsOpen(false);
+    const previous = level;
+    setLevel(value);
+
+    try {
+      await setNotificationLevel(roomId, value);
+    } catch (error) {
+      setLevel(previous);
+      showError(error);
+    }
+  };
+
+  const Current = LEVELS.find((option) => option.value === level)?.icon ?? Bell;
+
+  return (
+    <div className="relative ml-auto">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2 rounded-lg hover:bg-gray-700 transition-colors ${
+          level === 'all' ? 'text-gray-400' : 'text-yellow-400'
+        }`}
+        title="Notifications"
+      >
+        <Current className="w-5 h-5" />
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.ul
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            className="absolute right-0 top-full mt-1 w-48 p-1 bg-gray-800 border border-gray-700 rounded-xl shadow-xl z-30"
+          >
+            {LEVELS.map(({ value, label, icon: Icon }) => (
+              <li key={value}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(value)}
+                  className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-gray-200 hover:bg-gray-700 transition-colors"
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                  {value === level && <Check className="w-4 h-4 ml-auto text-blue-400" />}
+                </button>
+              </li>
+            ))}
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, Moon, Volume2, Save } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { playDing, unlockAudio } from '../lib/ding';
+import { showError } from '../lib/errors';
+import { saveUserSettings, useUserSettings } from '../hooks/useUserSettings';
+
+const notificationsSupported = 'Notification' in window;
+
+// Postgres returns '22:00:00'; time inputs want '22:00'
+const toInputTime = (time: string) => time.slice(0, 5);
+
+interface NotificationSettingsProps {
+  userId: string;
+}
+
+export default function NotificationSettings({ userId }: NotificationSettingsProps) {
+  const settings = useUserSettings(userId);
+  const [permission, setPermission] = useState(
+    notificationsSupported ? Notification.permission : 'denied'
+  );
+  const [soundEnabled, setSoundEnabled] = useState(settings.sound_enabled);
+  const [dndEnabled, setDndEnabled] = useState(settings.dnd_enabled);
+  const [dndStart, setDndStart] = useState(toInputTime(settings.dnd_start));
+  const [dndEnd, setDndEnd] = useState(toInputTime(settings.dnd_end));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setSoundEnabled(settings.sound_enabled);
+    setDndEnabled(settings.dnd_enabled);
+    setDndStart(toInputTime(settings.dnd_start));
+    setDndEnd(toInputTime(settings.dnd_end));
+  }, [settings]);
+
+  const handleEnableNotifications = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  const handleTestSound = () => {
+    unlockAudio();
+    playDing();
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await saveUserSettings(userId, {
+        sound_enabled: soundEnabled,
+        dnd_enabled: dndEnabled,
+        dnd_start: dndStart,
+        dnd_end: dndEnd
+      });
+      toast.success('Notification settings saved');
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <h3 className="text-lg font-semibold">Notifications</h3>
+
+      <div className="flex items-center gap-3 p-3 rounded-xl bg-gray-700/40">
+        <Bell className="w-5 h-5 text-blue-400 shrink-0" />
+        <p className="text-sm flex-1">
+          {permission === 'granted'
+            ? 'Desktop notifications are on'
+            : permission === 'denied'
+              ? 'Desktop notifications are blocked in your browser'
+              : 'Desktop notifications are off'}
+        </p>
+        {notificationsSupported && permission === 'default' && (
+          <button
+            type="button"
+            onClick={handleEnableNotifications}
+            className="px-3 py-1 bg-blue-500 hover:bg-blue-600 rounded-lg text-sm transition-colors"
+          >
+            Enable
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2 flex-1 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={soundEnabled}
+            onChange={(e) => setSoundEnabled(e.target.checked)}
+            className="w-4 h-4 accent-blue-500"
+          />
+          Play a sound for new messages
+        </label>
+        <button
+          type="button"
+          onClick={handleTestSound}
+          className="p-2 rounded-lg text-gray-400 hover:text-blue-400 hover:bg-gray-700 transition-colors"
+          title="Play sound"
+        >
+          <Volume2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={dndEnabled}
+            onChange={(e) => setDndEnabled(e.target.checked)}
+            className="w-4 h-4 accent-blue-500"
+          />
+          <Moon className="w-4 h-4" />
+          Do not disturb every day
+        </label>
+        <div className="flex items-center gap-2">
+          <input
+            type="time"
+            value={dndStart}
+            onChange={(e) => setDndStart(e.target.value)}
+            disabled={!dndEnabled}
+            required
+            className="flex-1 px-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 disabled:opacity-50"
+          />
+          <span className="text-gray-400 text-sm">to</span>
+          <input
+            type="time"
+            value={dndEnd}
+            onChange={(e) => setDndEnd(e.target.value)}
+            disabled={!dndEnabled}
+            required
+            className="flex-1 px-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 disabled:opacity-50"
+          />
+        </div>
+        <p className="text-xs text-gray-400">
+          Sounds and desktop notifications are held back during these hours. Room notification
+          levels are set from the bell in each room.
+        </p>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="w-full px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transition-all duration-200 flex items-center justify-center gap-2"
+      >
+        <Save className="w-5 h-5" />
+        Save Notifications
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,31 @@
+import { Check, X } from 'lucide-react';
+import { PASSWORD_RULES } from '../lib/passwords';
+
+interface PasswordRulesProps {
+  password: string;
+}
+
+/**
+ * Checklist shown under new-password fields, ticking rules off as the user
+ * types.
+ */
+export default function PasswordRules({ password }: PasswordRulesProps) {
+  if (!password) return null;
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {PASSWORD_RULES.map((rule) => {
+        const passed = rule.test(password);
+        return (
+          <li
+            key={rule.label}
+            className={`flex items-center gap-1.5 ${passed ? 'text-green-400' : 'text-gray-400'}`}
+          >
+            {passed ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+            {rule.label}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,32 +1,108 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
 import { toast } from 'react-hot-toast';
 import { supabase } from '../lib/supabase';
-import { Mail, Lock, Save, X } from 'lucide-react';
+import { showError } from '../lib/errors';
+import { updateProfile } from '../lib/repository/profiles';
+import { uploadAvatar } from '../lib/repository/storage';
+import { Mail, Lock, Save, X, User, Camera, Loader2, KeyRound, Send } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { useProfile, updateCachedProfile } from '../hooks/useProfiles';
+import { passwordProblem } from '../lib/passwords';
+import Avatar from './Avatar';
+import NotificationSettings from './NotificationSettings';
+import PasswordRules from './PasswordRules';
+import LinkedAccounts from './LinkedAccounts';
+import TwoFactorSettings from './TwoFactorSettings';
+
+// Largest avatar image accepted for upload
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+const MAX_BIO_LENGTH = 160;
 
 interface ProfileSettingsProps {
+  session: Session;
   onClose: () => void;
 }
 
-export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
+export default function ProfileSettings({ session, onClose }: ProfileSettingsProps) {
+  const profile = useProfile(session.user.id);
+  const [displayName, setDisplayName] = useState('');
+  const [bio, setBio] = useState('');
+  const [isSavingProfile, setIsSavingProfile] = useState(false);
+  const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
   const [newEmail, setNewEmail] = useState('');
-  const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [isSendingCode, setIsSendingCode] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
 
+  useEffect(() => {
+    if (profile) {
+      setDisplayName(profile.display_name);
+      setBio(profile.bio);
+    }
+  }, [profile]);
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!displayName.trim()) {
+      toast.error('Display name is required');
+      return;
+    }
+
+    setIsSavingProfile(true);
+    try {
+      updateCachedProfile(
+        await updateProfile(session.user.id, { display_name: displayName.trim(), bio: bio.trim() })
+      );
+      toast.success('Profile updated');
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSavingProfile(false);
+    }
+  };
+
+  const handleAvatarUpload = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please upload an image file');
+      return;
+    }
+
+    if (file.size > MAX_AVATAR_BYTES) {
+      toast.error('Avatar must be smaller than 2 MB');
+      return;
+    }
+
+    setIsUploadingAvatar(true);
+    try {
+      const avatarUrl = await uploadAvatar(session.user.id, file);
+      updateCachedProfile(await updateProfile(session.user.id, { avatar_url: avatarUrl }));
+      toast.success('Avatar updated');
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsUploadingAvatar(false);
+      if (avatarInputRef.current) {
+        avatarInputRef.current.value = '';
+      }
+    }
+  };
+
   const validateEmail = (email: string) => {
     // More strict email validation that matches Supabase's requirements
     const emailRegex = /^[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
     return emailRegex.test(email);
   };
 
+  // With double_confirm_changes the change only goes through once both the
+  // current and the new address confirm it, so a borrowed session cannot
+  // move the account to another inbox
   const handleUpdateEmail = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!currentPassword) {
-      toast.error('Current password is required to update email');
-      return;
-    }
-
     if (!validateEmail(newEmail)) {
       toast.error('Please enter a valid email address');
       return;
@@ -43,34 +119,66 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
         }
         return;
       }
-      toast.success('Email update request sent. Please check your new email for confirmation.');
+      toast.success(
+        'Email update request sent. Please confirm the change from both your current and new email.'
+      );
       onClose();
     } catch (error) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      }
+      showError(error);
     } finally {
       setIsUpdating(false);
     }
   };
 
+  // With secure_password_change Supabase refuses a new password without the
+  // code emailed here, unless the session signed in within the last day.
+  // Accounts that sign in with a link or a provider have no password to
+  // confirm, so a code is asked of everyone.
+  const handleSendCode = async () => {
+    setIsSendingCode(true);
+    try {
+      const { error } = await supabase.auth.reauthenticate();
+      if (error) throw error;
+      setCodeSent(true);
+      setCode('');
+      toast.success(`We sent a verification code to ${session.user.email}`);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSendingCode(false);
+    }
+  };
+
   const handleUpdatePassword = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!currentPassword) {
-      toast.error('Current password is required to update password');
+    const problem = passwordProblem(newPassword);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    if (!code.trim()) {
+      toast.error('Enter the verification code we emailed you');
       return;
     }
 
     setIsUpdating(true);
     try {
-      const { error } = await supabase.auth.updateUser({ password: newPassword });
-      if (error) throw error;
+      const { error } = await supabase.auth.updateUser({
+        password: newPassword,
+        nonce: code.trim()
+      });
+      if (error) {
+        if (error.code === 'reauthentication_not_valid') {
+          toast.error('That code is wrong or has expired. Please try again.');
+          return;
+        }
+        throw error;
+      }
       toast.success('Password updated successfully');
       onClose();
     } catch (error) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      }
+      showError(error);
     } finally {
       setIsUpdating(false);
     }
@@ -81,7 +189,7 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
       <motion.div
         initial={{ opacity: 0, scale: 0.9 }}
         animate={{ opacity: 1, scale: 1 }}
-        className="bg-gray-800 rounded-2xl p-6 max-w-md w-full"
+        className="bg-gray-800 rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto"
       >
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-xl font-bold">Profile Settings</h2>
@@ -94,6 +202,80 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
         </div>
 
         <div className="space-y-6">
+          {/* Public Profile Form */}
+          <form onSubmit={handleSaveProfile} className="space-y-4">
+            <h3 className="text-lg font-semibold">Public Profile</h3>
+            <div className="flex items-center gap-4">
+              <div className="relative">
+                <Avatar userId={session.user.id} profile={profile} size="lg" />
+                <input
+                  type="file"
+                  ref={avatarInputRef}
+                  onChange={(e) => e.target.files?.[0] && handleAvatarUpload(e.target.files[0])}
+                  accept="image/*"
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => avatarInputRef.current?.click()}
+                  disabled={isUploadingAvatar}
+                  className="absolute -bottom-1 -right-1 p-2 bg-blue-500 hover:bg-blue-600 rounded-full shadow-lg transition-colors"
+                  aria-label="Change avatar"
+                >
+                  {isUploadingAvatar ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Camera className="w-4 h-4" />
+                  )}
+                </button>
+              </div>
+              <p className="text-sm text-gray-400">
+                Your name and avatar are shown to other users instead of your email address.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <div className="relative">
+                <User className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <input
+                  type="text"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  maxLength={50}
+                  className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
+                  placeholder="Display name"
+                  required
+                />
+              </div>
+              <div>
+                <textarea
+                  value={bio}
+                  onChange={(e) => setBio(e.target.value)}
+                  maxLength={MAX_BIO_LENGTH}
+                  rows={3}
+                  className="w-full px-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 resize-none"
+                  placeholder="A short bio"
+                />
+                <p className="text-xs text-gray-500 text-right">
+                  {bio.length}/{MAX_BIO_LENGTH}
+                </p>
+              </div>
+            </div>
+            <button
+              type="submit"
+              disabled={isSavingProfile}
+              className="w-full px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transition-all duration-200 flex items-center justify-center gap-2"
+            >
+              <Save className="w-5 h-5" />
+              Save Profile
+            </button>
+          </form>
+
+          <NotificationSettings userId={session.user.id} />
+
+          <LinkedAccounts />
+
+          <TwoFactorSettings />
+
           {/* Email Update Form */}
           <form onSubmit={handleUpdateEmail} className="space-y-4">
             <h3 className="text-lg font-semibold">Update Email</h3>
@@ -109,17 +291,6 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                   required
                 />
               </div>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
-                <input
-                  type="password"
-                  value={currentPassword}
-                  onChange={(e) => setCurrentPassword(e.target.value)}
-                  className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
-                  placeholder="Current password"
-                  required
-                />
-              </div>
             </div>
             <button
               type="submit"
@@ -135,17 +306,6 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
           <form onSubmit={handleUpdatePassword} className="space-y-4">
             <h3 className="text-lg font-semibold">Update Password</h3>
             <div className="space-y-2">
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
-                <input
-                  type="password"
-                  value={currentPassword}
-                  onChange={(e) => setCurrentPassword(e.target.value)}
-                  className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
-                  placeholder="Current password"
-                  required
-                />
-              </div>
               <div className="relative">
                 <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
                 <input
@@ -154,13 +314,44 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
                   onChange={(e) => setNewPassword(e.target.value)}
                   className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
                   placeholder="New password"
+                  autoComplete="new-password"
                   required
                 />
               </div>
+              <PasswordRules password={newPassword} />
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 tracking-widest"
+                    placeholder="Verification code"
+                    autoComplete="one-time-code"
+                    disabled={!codeSent}
+                    required
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSendCode}
+                  disabled={isSendingCode}
+                  className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl transition-colors flex items-center gap-2 text-sm"
+                >
+                  {isSendingCode ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Send className="w-4 h-4" />
+                  )}
+                  {codeSent ? 'Resend' : 'Send code'}
+                </button>
+              </div>
             </div>
             <button
               type="submit"
-              disabled={isUpdating}
+              disabled={isUpdating || !codeSent}
               className="w-full px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transition-all duration-200 flex items-center justify-center gap-2"
             >
               <Save className="w-5 h-5" />
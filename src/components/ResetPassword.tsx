@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Session } from '@supabase/supabase-js';
+import { toast } from 'react-hot-toast';
+import { Lock, KeyRound, AlertCircle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { supabase } from '../lib/supabase';
+import { ROOMS_PATH, SIGN_IN_PATH } from '../lib/routes';
+import { passwordProblem } from '../lib/passwords';
+import PasswordRules from './PasswordRules';
+
+// Supabase reports expired or reused recovery links in the URL instead of
+// signing the user in
+const recoveryLinkError = () => {
+  const params = new URLSearchParams(
+    window.location.hash.slice(1) || window.location.search
+  );
+  return params.get('error_description');
+};
+
+interface ResetPasswordProps {
+  session: Session | null;
+  onPasswordSet: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Landing page for the password recovery email. Opening the link signs the
+ * user in with a recovery session, and the rest of the app stays out of
+ * reach until they choose a new password here or sign out.
+ */
+export default function ResetPassword({ session, onPasswordSet, onCancel }: ResetPasswordProps) {
+  const navigate = useNavigate();
+  const [linkError] = useState(recoveryLinkError);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMessage(null);
+
+    const problem = passwordProblem(password);
+    if (problem) {
+      setErrorMessage(problem);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setErrorMessage('Passwords do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+
+      toast.success('Password updated');
+      onPasswordSet();
+      navigate(ROOMS_PATH, { replace: true });
+    } catch (error) {
+      if (error instanceof Error) {
+        setErrorMessage(error.message);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-800 rounded-2xl p-8 max-w-md w-full shadow-2xl border border-gray-700/50"
+      >
+        <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
+          <KeyRound className="w-6 h-6 text-blue-400" />
+          Reset your password
+        </h2>
+
+        {!session ? (
+          <div className="space-y-4">
+            <p className="p-3 rounded-lg bg-red-500/20 border border-red-500/30 flex items-center gap-2 text-sm">
+              <AlertCircle className="w-5 h-5 text-red-400 shrink-0" />
+              {linkError ?? 'This reset link is invalid or has expired.'}
+            </p>
+            <p className="text-sm text-gray-400">
+              Request a new link from the sign-in page.
+            </p>
+            <Link
+              to={SIGN_IN_PATH}
+              replace
+              className="block text-center px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold"
+            >
+              Back to sign in
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-400">
+              Choose a new password for {session.user.email}.
+            </p>
+            {errorMessage && (
+              <p className="p-3 rounded-lg bg-red-500/20 border border-red-500/30 flex items-center gap-2 text-sm">
+                <AlertCircle className="w-5 h-5 text-red-400 shrink-0" />
+                {errorMessage}
+              </p>
+            )}
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
+                placeholder="New password"
+                autoComplete="new-password"
+                required
+              />
+            </div>
+            <PasswordRules password={password} />
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
+                placeholder="Confirm new password"
+                autoComplete="new-password"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold disabled:opacity-50"
+            >
+              {isSaving ? 'Saving…' : 'Set new password'}
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isSaving}
+              className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl transition-colors"
+            >
+              Cancel and sign out
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+}
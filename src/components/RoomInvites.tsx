@@ -0,0 +1,165 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link2, Copy, XCircle, Plus } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-hot-toast';
+import { showError } from '../lib/errors';
+import {
+  RoomInvite,
+  createInvite,
+  listActiveInvites,
+  revokeInvite
+} from '../lib/repository/rooms';
+import { inviteLink } from '../lib/routes';
+
+// Values are passed to Postgres as intervals; null means the link never expires
+const EXPIRY_OPTIONS: { label: string; value: string | null }[] = [
+  { label: '1 hour', value: '1 hour' },
+  { label: '1 day', value: '1 day' },
+  { label: '7 days', value: '7 days' },
+  { label: 'Never', value: null }
+];
+
+interface RoomInvitesProps {
+  roomId: string;
+}
+
+export default function RoomInvites({ roomId }: RoomInvitesProps) {
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const [expiresIn, setExpiresIn] = useState<string | null>('1 day');
+  const [maxUses, setMaxUses] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Revoked, expired and used-up links are hidden rather than listed
+  const fetchInvites = useCallback(async () => {
+    try {
+      setInvites(await listActiveInvites(roomId));
+    } catch {
+      toast.error('Failed to fetch invites');
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    fetchInvites();
+  }, [fetchInvites]);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(token));
+      toast.success('Invite link copied');
+    } catch {
+      toast.error('Could not copy the invite link');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const token = await createInvite(roomId, expiresIn, maxUses ? parseInt(maxUses) : null);
+
+      setMaxUses('');
+      await fetchInvites();
+      await copyLink(token);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    try {
+      await revokeInvite(inviteId);
+
+      toast.success('Invite link revoked');
+      setInvites((current) => current.filter((invite) => invite.id !== inviteId));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-300 mb-1">Expires after</label>
+            <select
+              value={expiresIn ?? ''}
+              onChange={(e) => setExpiresIn(e.target.value || null)}
+              className="w-full px-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.label} value={option.value ?? ''}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-300 mb-1">Max uses</label>
+            <input
+              type="number"
+              min="1"
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              placeholder="Unlimited"
+              className="w-full px-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
+            />
+          </div>
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          type="submit"
+          disabled={isCreating}
+          className="w-full px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transition-all duration-200 flex items-center justify-center gap-2"
+        >
+          <Plus className="w-5 h-5" />
+          {isCreating ? 'Creating...' : 'Create Invite Link'}
+        </motion.button>
+      </form>
+
+      {invites.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center">No active invite links</p>
+      ) : (
+        <ul className="space-y-2 max-h-60 overflow-y-auto pr-1">
+          {invites.map((invite) => (
+            <li key={invite.id} className="flex items-center gap-3 p-2 rounded-xl bg-gray-700/40">
+              <Link2 className="w-5 h-5 text-blue-400 shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-mono truncate">{invite.token.slice(0, 12)}…</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {invite.expires_at
+                    ? `Expires ${new Date(invite.expires_at).toLocaleString()}`
+                    : 'Never expires'}
+                  {' · '}
+                  {invite.max_uses === null
+                    ? `${invite.use_count} uses`
+                    : `${invite.use_count} / ${invite.max_uses} uses`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => copyLink(invite.token)}
+                className="p-2 rounded-lg text-gray-400 hover:text-blue-400 hover:bg-gray-700 transition-colors"
+                title="Copy link"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRevoke(invite.id)}
+                className="p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-gray-700 transition-colors"
+                title="Revoke"
+              >
+                <XCircle className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
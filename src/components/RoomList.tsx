@@ -1,20 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { Session } from '@supabase/supabase-js';
-import { Plus, Lock, LogIn, Settings, Search } from 'lucide-react';
+import { Plus, Lock, LogIn, Settings, Search, Users, AtSign } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
 import { supabase } from '../lib/supabase';
+import { showError } from '../lib/errors';
+import { hasSecondFactor } from '../lib/mfa';
+import { Room, createRoom, joinRoom, listGroupRooms } from '../lib/repository/rooms';
+import { RoomRole, listRoles } from '../lib/repository/memberships';
+import { useRoomOnlineCounts } from '../hooks/useRoomChannel';
+import { useUnreadCounts } from '../hooks/useUnreadCounts';
+import { useProfiles } from '../hooks/useProfiles';
 import RoomSettings from './RoomSettings';
-
-interface Room {
-  id: string;
-  name: string;
-  owner_email: string;
-  created_at: string;
-  password_hash: string;
-  max_users: number;
-  owner_id: string;
-}
+import DirectMessageList from './DirectMessageList';
+import Avatar from './Avatar';
 
 interface RoomListProps {
   session: Session;
@@ -33,9 +32,21 @@ export default function RoomList({ session, onRoomSelect }: RoomListProps) {
   const [maxUsers, setMaxUsers] = useState(10);
   const [joinPassword, setJoinPassword] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
+  const [myRoles, setMyRoles] = useState<Record<string, RoomRole>>({});
+  const onlineCounts = useRoomOnlineCounts(rooms.map((room) => room.id));
+  const { unreadCounts, mentionCounts } = useUnreadCounts(session.user.id);
+  const ownerProfiles = useProfiles(rooms.map((room) => room.owner_id));
 
   useEffect(() => {
+    const fetchMyRoles = async () => {
+      const roles = await listRoles(session.user.id).catch(() => null);
+      if (roles) {
+        setMyRoles(roles);
+      }
+    };
+
     fetchRooms();
+    fetchMyRoles();
 
     const channel = supabase
       .channel('rooms')
@@ -46,63 +57,78 @@ export default function RoomList({ session, onRoomSelect }: RoomListProps) {
           fetchRooms();
         }
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'room_users' },
+        () => {
+          fetchMyRoles();
+        }
+      )
       .subscribe();
 
     return () => {
       channel.unsubscribe();
     };
-  }, []);
+  }, [session.user.id]);
 
   useEffect(() => {
-    if (searchQuery.trim() === '') {
-      const sortedRooms = [...rooms].sort((a, b) => {
+    // Rooms that mention you first, then other unread rooms, then rooms you
+    // own, then newest
+    const sortRooms = (list: Room[]) =>
+      [...list].sort((a, b) => {
+        const aMentioned = (mentionCounts[a.id] ?? 0) > 0;
+        const bMentioned = (mentionCounts[b.id] ?? 0) > 0;
+        if (aMentioned !== bMentioned) {
+          return aMentioned ? -1 : 1;
+        }
+        const aUnread = (unreadCounts[a.id] ?? 0) > 0;
+        const bUnread = (unreadCounts[b.id] ?? 0) > 0;
+        if (aUnread !== bUnread) {
+          return aUnread ? -1 : 1;
+        }
         if ((a.owner_id === session.user.id) === (b.owner_id === session.user.id)) {
           return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
         }
         return a.owner_id === session.user.id ? -1 : 1;
       });
-      setFilteredRooms(sortedRooms);
+
+    if (searchQuery.trim() === '') {
+      setFilteredRooms(sortRooms(rooms));
     } else {
       const query = searchQuery.toLowerCase();
-      const filteredAndSorted = rooms
-        .filter(
-          room => 
-            room.id.toLowerCase().includes(query) ||
-            room.name.toLowerCase().includes(query)
+      setFilteredRooms(
+        sortRooms(
+          rooms.filter(
+            room =>
+              room.id.toLowerCase().includes(query) ||
+              room.name.toLowerCase().includes(query)
+          )
         )
-        .sort((a, b) => {
-          if ((a.owner_id === session.user.id) === (b.owner_id === session.user.id)) {
-            return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-          }
-          return a.owner_id === session.user.id ? -1 : 1;
-        });
-      setFilteredRooms(filteredAndSorted);
+      );
     }
-  }, [searchQuery, rooms, session.user.id]);
+  }, [searchQuery, rooms, unreadCounts, mentionCounts, session.user.id]);
 
   const fetchRooms = async () => {
-    const { data, error } = await supabase
-      .from('rooms')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (error) {
+    try {
+      setRooms(await listGroupRooms());
+    } catch {
       toast.error('Failed to fetch rooms');
-      return;
     }
+  };
 
-    const sortedRooms = (data || []).sort((a, b) => {
-      if ((a.owner_id === session.user.id) === (b.owner_id === session.user.id)) {
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-      }
-      return a.owner_id === session.user.id ? -1 : 1;
-    });
+  const openSettings = async (room: Room) => {
+    if (room.require_mfa && !(await hasSecondFactor())) {
+      toast.error(
+        'This room requires two-factor authentication. Turn it on in Profile Settings first.'
+      );
+      return;
+    }
 
-    setRooms(sortedRooms);
-    setFilteredRooms(sortedRooms);
+    setSelectedRoom(room);
+    setShowSettings(true);
   };
 
-  const createRoom = async (e: React.FormEvent) => {
+  const handleCreateRoom = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!newRoomPassword.trim()) {
@@ -111,35 +137,20 @@ export default function RoomList({ session, onRoomSelect }: RoomListProps) {
     }
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not found');
-
-      const { data, error } = await supabase.from('rooms').insert([
-        {
-          name: newRoomName,
-          password_hash: newRoomPassword,
-          max_users: maxUsers,
-          owner_id: user.id,
-          owner_email: user.email
-        }
-      ]).select().single();
-
-      if (error) throw error;
+      const roomId = await createRoom(newRoomName, newRoomPassword, maxUsers);
 
       setShowCreateModal(false);
       setNewRoomName('');
       setNewRoomPassword('');
       setMaxUsers(10);
-      onRoomSelect(data.id);
+      onRoomSelect(roomId);
       toast.success('Room created successfully!');
     } catch (error) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      }
+      showError(error);
     }
   };
 
-  const joinRoom = async (e: React.FormEvent) => {
+  const handleJoinRoom = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedRoom) return;
 
@@ -149,71 +160,24 @@ export default function RoomList({ session, onRoomSelect }: RoomListProps) {
     }
 
     try {
-      // First, verify the password matches
-      if (joinPassword !== selectedRoom.password_hash) {
-        toast.error('Incorrect password');
-        return;
-      }
-
-      // Only proceed with joining if password is correct
-      const { data: existingMembership, error: membershipError } = await supabase
-        .from('room_users')
-        .select('*')
-        .eq('room_id', selectedRoom.id)
-        .eq('user_id', session.user.id)
-        .single();
-
-      if (membershipError && membershipError.code !== 'PGRST116') {
-        throw membershipError;
-      }
-
-      if (existingMembership) {
-        setShowJoinModal(false);
-        setJoinPassword('');
-        onRoomSelect(selectedRoom.id);
-        return;
-      }
-
-      // Check current number of users
-      const { count, error: countError } = await supabase
-        .from('room_users')
-        .select('*', { count: 'exact' })
-        .eq('room_id', selectedRoom.id);
-
-      if (countError) throw countError;
-
-      if (count !== null && count >= selectedRoom.max_users) {
-        toast.error('Room is full. Please try another room.');
-        setShowJoinModal(false);
-        setJoinPassword('');
-        return;
-      }
-
-      // Join the room
-      const { error: joinError } = await supabase
-        .from('room_users')
-        .insert([
-          {
-            room_id: selectedRoom.id,
-            user_id: session.user.id
-          }
-        ]);
-
-      if (joinError) throw joinError;
+      await joinRoom(selectedRoom.id, joinPassword);
 
       setShowJoinModal(false);
       setJoinPassword('');
       onRoomSelect(selectedRoom.id);
       toast.success('Successfully joined the room!');
     } catch (error) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      }
+      showError(error);
     }
   };
 
   return (
     <div className="max-w-4xl mx-auto">
+      <DirectMessageList
+        session={session}
+        unreadCounts={unreadCounts}
+        onRoomSelect={onRoomSelect}
+      />
       <div className="bg-gradient-to-br from-gray-800/50 to-gray-900/50 backdrop-blur-lg rounded-2xl shadow-2xl border border-gray-700/50 p-6">
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 text-transparent bg-clip-text">
@@ -257,24 +221,61 @@ export default function RoomList({ session, onRoomSelect }: RoomListProps) {
                 <div>
                   <div className="flex items-center gap-2">
                     <h3 className="text-lg font-semibold text-white">{room.name}</h3>
+                    {(unreadCounts[room.id] ?? 0) > 0 && (
+                      <motion.span
+                        key={unreadCounts[room.id]}
+                        initial={{ scale: 0.6 }}
+                        animate={{ scale: 1 }}
+                        className="min-w-[1.5rem] px-2 py-0.5 bg-red-500 text-white text-xs font-bold rounded-full text-center shadow-lg shadow-red-500/30"
+                      >
+                        {unreadCounts[room.id] > 99 ? '99+' : unreadCounts[room.id]}
+                      </motion.span>
+                    )}
+                    {(mentionCounts[room.id] ?? 0) > 0 && (
+                      <motion.span
+                        key={`mentions-${mentionCounts[room.id]}`}
+                        initial={{ scale: 0.6 }}
+                        animate={{ scale: 1 }}
+                        className="px-2 py-0.5 bg-yellow-400 text-gray-900 text-xs font-bold rounded-full flex items-center gap-0.5 shadow-lg shadow-yellow-400/30"
+                        title="Unread mentions"
+                      >
+                        <AtSign className="w-3 h-3" />
+                        {mentionCounts[room.id] > 99 ? '99+' : mentionCounts[room.id]}
+                      </motion.span>
+                    )}
                     {room.owner_id === session.user.id && (
                       <span className="px-2 py-1 bg-blue-500/20 text-blue-400 text-xs rounded-full">
                         Owner
                       </span>
                     )}
+                    {myRoles[room.id] === 'moderator' && (
+                      <span className="px-2 py-1 bg-purple-500/20 text-purple-400 text-xs rounded-full">
+                        Moderator
+                      </span>
+                    )}
                   </div>
-                  <p className="text-sm text-gray-400">Created by {room.owner_email}</p>
+                  <p className="text-sm text-gray-400 flex items-center gap-1.5">
+                    Created by
+                    <Avatar userId={room.owner_id} profile={ownerProfiles[room.owner_id]} size="xs" />
+                    <span className="text-gray-300">
+                      {ownerProfiles[room.owner_id]?.display_name ?? '…'}
+                    </span>
+                  </p>
+                  <p className="text-sm text-gray-400 flex items-center gap-1 mt-1">
+                    <Users className="w-4 h-4" />
+                    <span className={onlineCounts[room.id] ? 'text-green-400' : undefined}>
+                      {onlineCounts[room.id] ?? 0} online
+                    </span>
+                    <span>/ {room.max_users}</span>
+                  </p>
                   <p className="text-xs text-gray-500 mt-1">Room ID: {room.id}</p>
                 </div>
                 <div className="flex items-center gap-2">
-                  {room.owner_id === session.user.id && (
+                  {(myRoles[room.id] === 'owner' || myRoles[room.id] === 'moderator') && (
                     <motion.button
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
-                      onClick={() => {
-                        setSelectedRoom(room);
-                        setShowSettings(true);
-                      }}
+                      onClick={() => openSettings(room)}
                       className="p-2 bg-gray-700/50 hover:bg-gray-700 rounded-lg transition-colors"
                     >
                       <Settings className="w-5 h-5" />
@@ -308,7 +309,7 @@ export default function RoomList({ session, onRoomSelect }: RoomListProps) {
             className="bg-gray-800 rounded-2xl p-6 max-w-md w-full"
           >
             <h3 className="text-xl font-bold mb-4">Create New Room</h3>
-            <form onSubmit={createRoom} className="space-y-4">
+            <form onSubmit={handleCreateRoom} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">
                   Room Name
@@ -376,7 +377,7 @@ export default function RoomList({ session, onRoomSelect }: RoomListProps) {
             className="bg-gray-800 rounded-2xl p-6 max-w-md w-full"
           >
             <h3 className="text-xl font-bold mb-4">Join {selectedRoom.name}</h3>
-            <form onSubmit={joinRoom} className="space-y-4">
+            <form onSubmit={handleJoinRoom} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">
                   Room Password
@@ -418,6 +419,8 @@ export default function RoomList({ session, onRoomSelect }: RoomListProps) {
       {showSettings && selectedRoom && (
         <RoomSettings
           room={selectedRoom}
+          currentUserId={session.user.id}
+          currentRole={myRoles[selectedRoom.id] ?? 'member'}
           onClose={() => {
             setShowSettings(false);
             setSelectedRoom(null);
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { Users, LogOut } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'react-hot-toast';
+import { showError } from '../lib/errors';
+import { countMembers, leaveRoom } from '../lib/repository/memberships';
+import type { PresenceMember, PresenceStatus } from '../hooks/useRoomChannel';
+import type { Profile } from '../lib/repository/profiles';
+import Avatar from './Avatar';
+
+const STATUS_STYLES: Record<PresenceStatus, { dot: string; label: string }> = {
+  online: { dot: 'bg-green-400', label: 'Online' },
+  idle: { dot: 'bg-yellow-400', label: 'Idle' },
+  away: { dot: 'bg-gray-500', label: 'Away' }
+};
+
+interface RoomMembersProps {
+  roomId: string;
+  currentUserId: string;
+  canLeave: boolean;
+  onlineMembers: PresenceMember[];
+  profiles: Record<string, Profile>;
+  onLeave: () => void;
+  onMemberClick: (userId: string) => void;
+}
+
+export default function RoomMembers({
+  roomId,
+  currentUserId,
+  canLeave,
+  onlineMembers,
+  profiles,
+  onLeave,
+  onMemberClick
+}: RoomMembersProps) {
+  const [memberCount, setMemberCount] = useState<number | null>(null);
+  const [isLeaving, setIsLeaving] = useState(false);
+
+  useEffect(() => {
+    const fetchMemberCount = async () => {
+      const count = await countMembers(roomId).catch(() => null);
+      if (count !== null) {
+        setMemberCount(count);
+      }
+    };
+
+    fetchMemberCount();
+  }, [roomId]);
+
+  const handleLeave = async () => {
+    setIsLeaving(true);
+    try {
+      await leaveRoom(roomId, currentUserId);
+      toast.success('You left the room');
+      onLeave();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsLeaving(false);
+    }
+  };
+
+  return (
+    <aside className="hidden md:flex w-64 shrink-0 flex-col bg-gradient-to-br from-gray-800/50 to-gray-900/50 backdrop-blur-lg rounded-2xl shadow-2xl border border-gray-700/50 h-[600px]">
+      <div className="p-4 border-b border-gray-700/50">
+        <div className="flex items-center gap-2">
+          <Users className="w-5 h-5 text-blue-400" />
+          <h3 className="font-semibold">Online now</h3>
+          <span className="ml-auto px-2 py-0.5 bg-green-500/20 text-green-400 text-xs rounded-full">
+            {onlineMembers.length}
+          </span>
+        </div>
+        {memberCount !== null && (
+          <p className="text-xs text-gray-500 mt-1">
+            {memberCount} {memberCount === 1 ? 'member' : 'members'} in total
+          </p>
+        )}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+        <AnimatePresence>
+          {onlineMembers.map((member) => (
+            <motion.li
+              key={member.user_id}
+              layout
+              initial={{ opacity: 0, x: 10 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 10 }}
+              onClick={() => onMemberClick(member.user_id)}
+              className={`flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-gray-700/40 transition-colors ${
+                member.user_id === currentUserId ? '' : 'cursor-pointer'
+              }`}
+              title={
+                member.user_id === currentUserId
+                  ? STATUS_STYLES[member.status].label
+                  : `${STATUS_STYLES[member.status].label} · Send a direct message`
+              }
+            >
+              <span className="relative shrink-0">
+                <Avatar userId={member.user_id} profile={profiles[member.user_id]} />
+                <span className="absolute -bottom-0.5 -right-0.5 flex w-3 h-3 rounded-full ring-2 ring-gray-900">
+                  {member.status === 'online' && (
+                    <span className="absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-60 animate-ping" />
+                  )}
+                  <span
+                    className={`relative inline-flex w-3 h-3 rounded-full ${STATUS_STYLES[member.status].dot}`}
+                  />
+                </span>
+              </span>
+              <div className="min-w-0">
+                <p
+                  className={`text-sm truncate ${
+                    member.status === 'online' ? 'text-gray-100' : 'text-gray-400'
+                  }`}
+                >
+                  {profiles[member.user_id]?.display_name ?? '…'}
+                  {member.user_id === currentUserId && (
+                    <span className="text-gray-500"> (you)</span>
+                  )}
+                </p>
+                {member.status !== 'online' && (
+                  <p className="text-xs text-gray-500">{STATUS_STYLES[member.status].label}</p>
+                )}
+              </div>
+            </motion.li>
+          ))}
+        </AnimatePresence>
+      </ul>
+
+      {canLeave && (
+        <div className="p-4 border-t border-gray-700/50">
+          <button
+            type="button"
+            onClick={handleLeave}
+            disabled={isLeaving}
+            className="w-full px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-xl transition-colors flex items-center justify-center gap-2 text-sm"
+          >
+            <LogOut className="w-4 h-4" />
+            {isLeaving ? 'Leaving...' : 'Leave room'}
+          </button>
+          <p className="text-xs text-gray-500 mt-2 text-center">
+            Removes your membership. You will need the password to rejoin.
+          </p>
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { Session } from '@supabase/supabase-js';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { isRoomMember } from '../lib/repository/memberships';
+import { ROOMS_PATH, roomPath } from '../lib/routes';
+import Chat from './Chat';
+
+type Access = 'checking' | 'member' | 'denied';
+
+interface RoomRouteProps {
+  session: Session;
+}
+
+/**
+ * Opens the room from `/rooms/:roomId`. Deep links can point anywhere, so
+ * membership is checked before the chat loads and outsiders are sent back
+ * to the room list.
+ */
+export default function RoomRoute({ session }: RoomRouteProps) {
+  const { roomId = '' } = useParams();
+  const navigate = useNavigate();
+  const [access, setAccess] = useState<{ roomId: string; status: Access }>({
+    roomId,
+    status: 'checking'
+  });
+  const status = access.roomId === roomId ? access.status : 'checking';
+
+  useEffect(() => {
+    const checkMembership = async () => {
+      if (!(await isRoomMember(roomId, session.user.id))) {
+        toast.error('You are not a member of this room');
+        setAccess({ roomId, status: 'denied' });
+        return;
+      }
+
+      setAccess({ roomId, status: 'member' });
+    };
+
+    checkMembership();
+  }, [roomId, session.user.id]);
+
+  if (status === 'denied') {
+    return <Navigate to={ROOMS_PATH} replace />;
+  }
+
+  if (status === 'checking') {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="w-8 h-8 text-blue-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Chat
+      session={session}
+      roomId={roomId}
+      onLeave={() => navigate(ROOMS_PATH)}
+      onOpenRoom={(id) => navigate(roomPath(id))}
+    />
+  );
+}
@@ -1,28 +1,38 @@
 import React, { useState } from 'react';
-import { Settings, Lock, Users, Trash2, AlertCircle } from 'lucide-react';
+import { Settings, Lock, Users, Trash2, AlertCircle, X, ShieldCheck } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
-import { supabase } from '../lib/supabase';
-
-interface Room {
-  id: string;
-  name: string;
-  password_hash: string;
-  max_users: number;
-  owner_id: string;
-}
+import { showError } from '../lib/errors';
+import { hasSecondFactor } from '../lib/mfa';
+import { Room, deleteRoom, setRoomPassword, updateRoomSettings } from '../lib/repository/rooms';
+import type { RoomRole } from '../lib/repository/memberships';
+import MemberManagement from './MemberManagement';
+import RoomInvites from './RoomInvites';
 
 interface RoomSettingsProps {
   room: Room;
+  currentUserId: string;
+  currentRole: RoomRole;
   onClose: () => void;
   onRoomDeleted: () => void;
 }
 
-export default function RoomSettings({ room, onClose, onRoomDeleted }: RoomSettingsProps) {
+export default function RoomSettings({
+  room,
+  currentUserId,
+  currentRole,
+  onClose,
+  onRoomDeleted
+}: RoomSettingsProps) {
+  const isOwner = currentRole === 'owner';
+  // Moderators can only manage members and invites, so they land on members
+  const tabs = isOwner ? (['general', 'members', 'invites'] as const) : (['members', 'invites'] as const);
+  const [activeTab, setActiveTab] = useState<(typeof tabs)[number]>(tabs[0]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deletePassword, setDeletePassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [maxUsers, setMaxUsers] = useState(room.max_users);
+  const [requireMfa, setRequireMfa] = useState(room.require_mfa);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
@@ -31,27 +41,22 @@ export default function RoomSettings({ room, onClose, onRoomDeleted }: RoomSetti
     setIsUpdating(true);
 
     try {
-      const updates: Partial<Room> = {
-        max_users: maxUsers,
-      };
-
-      if (newPassword) {
-        updates.password_hash = newPassword;
+      // The owner has to meet the requirement themselves, or they would be
+      // locked out of these settings
+      if (requireMfa && !room.require_mfa && !(await hasSecondFactor())) {
+        throw new Error('Turn on two-factor authentication in Profile Settings first');
       }
 
-      const { error } = await supabase
-        .from('rooms')
-        .update(updates)
-        .eq('id', room.id);
+      await updateRoomSettings(room.id, { max_users: maxUsers, require_mfa: requireMfa });
 
-      if (error) throw error;
+      if (newPassword) {
+        await setRoomPassword(room.id, newPassword);
+      }
 
       toast.success('Room settings updated successfully');
       onClose();
     } catch (error) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      }
+      showError(error);
     } finally {
       setIsUpdating(false);
     }
@@ -62,31 +67,11 @@ export default function RoomSettings({ room, onClose, onRoomDeleted }: RoomSetti
     setIsDeleting(true);
 
     try {
-      // Delete in correct order to handle foreign key constraints
-      // 1. Delete messages
-      await supabase
-        .from('messages')
-        .delete()
-        .eq('room_id', room.id);
-
-      // 2. Delete room_users
-      await supabase
-        .from('room_users')
-        .delete()
-        .eq('room_id', room.id);
-
-      // 3. Finally delete the room
-      await supabase
-        .from('rooms')
-        .delete()
-        .eq('id', room.id);
-
+      await deleteRoom(room.id);
       toast.success('Room deleted successfully');
       onRoomDeleted();
     } catch (error) {
-      if (error instanceof Error) {
-        toast.error(error.message);
-      }
+      showError(error);
     } finally {
       setIsDeleting(false);
     }
@@ -102,69 +87,115 @@ export default function RoomSettings({ room, onClose, onRoomDeleted }: RoomSetti
         <div className="flex items-center gap-2 mb-6">
           <Settings className="w-6 h-6 text-blue-400" />
           <h2 className="text-xl font-bold">Room Settings</h2>
+          <button
+            onClick={onClose}
+            className="ml-auto p-2 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
         </div>
 
-        <form onSubmit={handleUpdateSettings} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-1">
-              New Password (leave blank to keep current)
-            </label>
-            <div className="relative">
-              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
-              <input
-                type="password"
-                value={newPassword}
-                onChange={(e) => setNewPassword(e.target.value)}
-                className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
-                placeholder="New room password"
-              />
+        <div className="flex gap-1 p-1 mb-6 bg-gray-900/50 rounded-xl">
+          {tabs.map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setActiveTab(tab)}
+              className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium capitalize transition-colors ${
+                activeTab === tab ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'members' && (
+          <MemberManagement
+            roomId={room.id}
+            currentUserId={currentUserId}
+            currentRole={currentRole}
+          />
+        )}
+
+        {activeTab === 'invites' && <RoomInvites roomId={room.id} />}
+
+        {activeTab === 'general' && isOwner && (
+          <form onSubmit={handleUpdateSettings} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                New Password (leave blank to keep current)
+              </label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
+                  placeholder="New room password"
+                />
+              </div>
             </div>
-          </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-300 mb-1">
-              Maximum Users
-            </label>
-            <div className="relative">
-              <Users className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Maximum Users
+              </label>
+              <div className="relative">
+                <Users className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={maxUsers}
+                  onChange={(e) => setMaxUsers(parseInt(e.target.value))}
+                  className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-3 p-3 rounded-xl bg-gray-700/40 cursor-pointer">
+              <ShieldCheck className="w-5 h-5 text-blue-400 shrink-0" />
+              <span className="text-sm flex-1">
+                Require two-factor authentication to manage or delete this room
+              </span>
               <input
-                type="number"
-                min="1"
-                max="100"
-                value={maxUsers}
-                onChange={(e) => setMaxUsers(parseInt(e.target.value))}
-                className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200"
+                type="checkbox"
+                checked={requireMfa}
+                onChange={(e) => setRequireMfa(e.target.checked)}
+                className="w-4 h-4 accent-blue-500"
               />
-            </div>
-          </div>
+            </label>
 
-          <div className="flex gap-2 justify-end">
-            <button
-              type="button"
-              onClick={() => setShowDeleteConfirm(true)}
-              className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-xl transition-colors flex items-center gap-2"
-              disabled={isUpdating || isDeleting}
-            >
-              <Trash2 className="w-5 h-5" />
-              Delete Room
-            </button>
-            <button
-              type="button"
-              onClick={onClose}
-              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl transition-colors"
-              disabled={isUpdating || isDeleting}
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={isUpdating || isDeleting}
-              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transition-all duration-200"
-            >
-              {isUpdating ? 'Updating...' : 'Save Changes'}
-            </button>
-          </div>
-        </form>
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => setShowDeleteConfirm(true)}
+                className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-xl transition-colors flex items-center gap-2"
+                disabled={isUpdating || isDeleting}
+              >
+                <Trash2 className="w-5 h-5" />
+                Delete Room
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl transition-colors"
+                disabled={isUpdating || isDeleting}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isUpdating || isDeleting}
+                className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transition-all duration-200"
+              >
+                {isUpdating ? 'Updating...' : 'Save Changes'}
+              </button>
+            </div>
+          </form>
+        )}
 
         {/* Delete Confirmation Modal */}
         {showDeleteConfirm && (
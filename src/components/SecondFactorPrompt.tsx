@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { ShieldCheck, KeyRound, LogIn, LogOut } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { supabase } from '../lib/supabase';
+import { errorMessage } from '../lib/errors';
+import { RECOVERY_CODE_PATTERN } from '../lib/mfa';
+import { redeemRecoveryCode } from '../lib/repository/account';
+
+interface SecondFactorPromptProps {
+  setIsLoading: (loading: boolean) => void;
+  onError: (message: string | null) => void;
+}
+
+/**
+ * Second sign-in step for users with an authenticator app. Verifying a code
+ * raises the session to AAL2; a recovery code removes the lost factor
+ * instead so the user can get back in and enroll a new one.
+ */
+export default function SecondFactorPrompt({ setIsLoading, onError }: SecondFactorPromptProps) {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const verifyAuthenticatorCode = async () => {
+    const { data, error: factorsError } = await supabase.auth.mfa.listFactors();
+    if (factorsError) throw factorsError;
+
+    const factor = data.totp[0];
+    if (!factor) throw new Error('No authenticator app is set up for this account');
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({
+      factorId: factor.id,
+      code: code.trim(),
+    });
+    if (error) throw error;
+  };
+
+  const signInWithRecoveryCode = async () => {
+    if (!RECOVERY_CODE_PATTERN.test(code.trim())) {
+      throw new Error('Recovery codes look like 1a2b3-c4d5e');
+    }
+
+    if (!(await redeemRecoveryCode(code.trim()))) {
+      throw new Error('That recovery code is not valid');
+    }
+
+    // The new token no longer lists the removed factor
+    const { error: refreshError } = await supabase.auth.refreshSession();
+    if (refreshError) throw refreshError;
+
+    toast.success('Two-factor authentication was turned off. Set it up again in Profile Settings.', {
+      duration: 6000,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    onError(null);
+    setIsLoading(true);
+
+    try {
+      if (useRecoveryCode) {
+        await signInWithRecoveryCode();
+      } else {
+        await verifyAuthenticatorCode();
+      }
+    } catch (error) {
+      onError(errorMessage(error));
+      toast.error('Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <motion.form
+      key="second-factor"
+      onSubmit={handleSubmit}
+      className="space-y-6"
+      initial={{ opacity: 0, x: 50 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: -50 }}
+      onChange={() => onError(null)}
+    >
+      <p className="text-sm text-white/70 text-center flex items-center justify-center gap-2">
+        <ShieldCheck className="w-5 h-5 text-blue-400 shrink-0" />
+        {useRecoveryCode
+          ? 'Enter one of the recovery codes you saved when setting up two-factor authentication.'
+          : 'Enter the 6-digit code from your authenticator app.'}
+      </p>
+      <div className="relative">
+        <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 text-blue-400 w-5 h-5" />
+        <input
+          type="text"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="w-full pl-12 pr-4 py-3 bg-white/10 rounded-xl border border-white/20 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 text-white placeholder-white/50 tracking-widest"
+          placeholder={useRecoveryCode ? 'Recovery code' : 'Code'}
+          autoComplete="one-time-code"
+          autoFocus
+          required
+        />
+      </div>
+      <motion.button
+        type="submit"
+        className="w-full py-3 px-6 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transform hover:translate-y-[-2px] transition-all duration-200 flex items-center justify-center gap-2"
+        whileHover={{ scale: 1.02 }}
+        whileTap={{ scale: 0.98 }}
+      >
+        <LogIn className="w-5 h-5" />
+        Verify
+      </motion.button>
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+            onError(null);
+          }}
+          className="text-blue-400 hover:text-blue-300 transition-colors duration-200"
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          onClick={() => supabase.auth.signOut()}
+          className="text-white/70 hover:text-white transition-colors duration-200 flex items-center gap-1"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </button>
+      </div>
+    </motion.form>
+  );
+}
@@ -0,0 +1,278 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Factor } from '@supabase/supabase-js';
+import { ShieldCheck, ShieldOff, KeyRound, Copy, Download, RefreshCw } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { showError } from '../lib/errors';
+import { discardRecoveryCodes, generateRecoveryCodes } from '../lib/repository/account';
+
+interface Enrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+/**
+ * Security section of Profile Settings: sets up an authenticator app (TOTP)
+ * and hands out recovery codes for when it is lost.
+ */
+export default function TwoFactorSettings() {
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  // Only ever held in memory; the server keeps hashes
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const fetchFactors = useCallback(async () => {
+    const { data, error } = await supabase.auth.mfa.listFactors();
+
+    if (error) {
+      toast.error('Failed to fetch two-factor settings');
+      return;
+    }
+
+    setFactors(data.totp);
+  }, []);
+
+  useEffect(() => {
+    fetchFactors();
+  }, [fetchFactors]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const showNewRecoveryCodes = async () => {
+    setRecoveryCodes(await generateRecoveryCodes());
+  };
+
+  const handleStartEnrollment = () =>
+    runAction(async () => {
+      // An abandoned enrollment leaves an unverified factor behind, which
+      // would clash with the new one
+      const { data: existing } = await supabase.auth.mfa.listFactors();
+      for (const factor of existing?.all ?? []) {
+        if (factor.status === 'unverified') {
+          await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        }
+      }
+
+      const { data, error } = await supabase.auth.mfa.enroll({
+        factorType: 'totp',
+        friendlyName: 'Authenticator app'
+      });
+      if (error) throw error;
+
+      setCode('');
+      setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+    });
+
+  const handleVerifyEnrollment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    runAction(async () => {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: enrollment.factorId,
+        code: code.trim()
+      });
+      if (error) throw error;
+
+      // The session is now AAL2, which generating codes requires
+      await showNewRecoveryCodes();
+      setEnrollment(null);
+      await fetchFactors();
+      toast.success('Two-factor authentication is on');
+    });
+  };
+
+  const handleCancelEnrollment = () =>
+    runAction(async () => {
+      if (enrollment) {
+        await supabase.auth.mfa.unenroll({ factorId: enrollment.factorId });
+      }
+      setEnrollment(null);
+    });
+
+  const handleDisable = () => {
+    if (!window.confirm('Turn off two-factor authentication?')) return;
+
+    runAction(async () => {
+      for (const factor of factors) {
+        const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+        if (error) throw error;
+      }
+
+      await discardRecoveryCodes();
+
+      setRecoveryCodes(null);
+      await fetchFactors();
+      toast.success('Two-factor authentication is off');
+    });
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast.success('Recovery codes copied');
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const url = URL.createObjectURL(
+      new Blob([`Ding Chat recovery codes\n\n${recoveryCodes.join('\n')}\n`], {
+        type: 'text/plain'
+      })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'ding-chat-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const isEnabled = factors.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold">Two-Factor Authentication</h3>
+
+      {recoveryCodes ? (
+        <div className="space-y-3 p-3 rounded-xl bg-gray-700/40">
+          <p className="text-sm text-gray-300">
+            Save these recovery codes somewhere safe. Each one can get you back in once if you
+            lose your authenticator app, and they will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode} className="px-2 py-1 rounded-lg bg-gray-900/60 text-center">
+                {recoveryCode}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleCopyCodes}
+              className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl text-sm transition-colors flex items-center gap-2"
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </button>
+            <button
+              type="button"
+              onClick={handleDownloadCodes}
+              className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl text-sm transition-colors flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Download
+            </button>
+            <button
+              type="button"
+              onClick={() => setRecoveryCodes(null)}
+              className="ml-auto px-3 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-sm text-white font-semibold"
+            >
+              I saved them
+            </button>
+          </div>
+        </div>
+      ) : enrollment ? (
+        <form onSubmit={handleVerifyEnrollment} className="space-y-3 p-3 rounded-xl bg-gray-700/40">
+          <p className="text-sm text-gray-300">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <img
+            src={enrollment.qrCode}
+            alt="Authenticator QR code"
+            className="w-44 h-44 mx-auto rounded-xl bg-white p-2"
+          />
+          <p className="text-xs text-gray-400 text-center break-all">
+            Can't scan it? Enter this key instead:{' '}
+            <span className="font-mono text-gray-200">{enrollment.secret}</span>
+          </p>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="w-full pl-12 pr-4 py-2 bg-gray-700 rounded-xl border border-gray-600 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 outline-none transition-all duration-200 tracking-widest"
+              placeholder="Code"
+              autoComplete="one-time-code"
+              required
+            />
+          </div>
+          <div className="flex gap-2 justify-end">
+            <button
+              type="button"
+              onClick={handleCancelEnrollment}
+              disabled={isBusy}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-xl transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl text-white font-semibold"
+            >
+              Verify
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex items-center gap-3 p-3 rounded-xl bg-gray-700/40">
+          {isEnabled ? (
+            <ShieldCheck className="w-5 h-5 text-green-400 shrink-0" />
+          ) : (
+            <ShieldOff className="w-5 h-5 text-gray-400 shrink-0" />
+          )}
+          <p className="text-sm flex-1">
+            {isEnabled
+              ? 'Sign-ins need a code from your authenticator app'
+              : 'Protect your account with an authenticator app'}
+          </p>
+          {isEnabled ? (
+            <div className="flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => runAction(showNewRecoveryCodes)}
+                disabled={isBusy}
+                className="p-2 rounded-lg text-gray-400 hover:text-blue-400 hover:bg-gray-700 transition-colors"
+                title="New recovery codes"
+              >
+                <RefreshCw className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={handleDisable}
+                disabled={isBusy}
+                className="px-3 py-1 text-sm rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-400 transition-colors"
+              >
+                Turn off
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={handleStartEnrollment}
+              disabled={isBusy}
+              className="px-3 py-1 text-sm rounded-lg bg-blue-500 hover:bg-blue-600 transition-colors"
+            >
+              Set up
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
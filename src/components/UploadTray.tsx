@@ -0,0 +1,89 @@
+import { FileText, X, RotateCcw, AlertCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { UploadItem } from '../hooks/useUploadQueue';
+import { formatFileSize } from '../lib/attachments';
+
+interface UploadTrayProps {
+  items: UploadItem[];
+  onRemove: (id: string) => void;
+  onRetry: (id: string) => void;
+}
+
+export default function UploadTray({ items, onRemove, onRetry }: UploadTrayProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="flex gap-3 overflow-x-auto px-4 pt-3 pb-1 border-t border-gray-700/50">
+      <AnimatePresence initial={false}>
+        {items.map((item) => {
+          const hasError = item.status === 'failed' || item.status === 'cancelled';
+
+          return (
+            <motion.div
+              key={item.id}
+              layout
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              className={`relative shrink-0 w-36 rounded-xl bg-gray-800 border overflow-hidden ${
+                hasError ? 'border-red-500/60' : 'border-gray-700'
+              }`}
+              title={item.error ?? item.file.name}
+            >
+              <div className="h-20 bg-gray-900/50 flex items-center justify-center">
+                {item.previewUrl ? (
+                  <img src={item.previewUrl} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <FileText className="w-8 h-8 text-gray-400" />
+                )}
+              </div>
+              <div className="p-2 space-y-1">
+                <p className="text-xs truncate">{item.file.name}</p>
+                {hasError ? (
+                  <p className="text-[11px] text-red-400 flex items-start gap-1">
+                    <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" />
+                    <span className="line-clamp-2">{item.error}</span>
+                  </p>
+                ) : (
+                  <p className="text-[11px] text-gray-400">{formatFileSize(item.file.size)}</p>
+                )}
+                {item.status === 'uploading' && (
+                  <div className="h-1 rounded-full bg-gray-700 overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-500 to-purple-600 transition-[width] duration-200"
+                      style={{ width: `${Math.round(item.progress * 100)}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="absolute top-1 right-1 flex gap-1">
+                {hasError && (
+                  <button
+                    type="button"
+                    onClick={() => onRetry(item.id)}
+                    className="p-1 bg-gray-900/80 hover:bg-gray-700 rounded-full transition-colors"
+                    aria-label={`Retry ${item.file.name}`}
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onRemove(item.id)}
+                  className="p-1 bg-gray-900/80 hover:bg-gray-700 rounded-full transition-colors"
+                  aria-label={
+                    item.status === 'uploading'
+                      ? `Cancel ${item.file.name}`
+                      : `Remove ${item.file.name}`
+                  }
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </motion.div>
+          );
+        })}
+      </AnimatePresence>
+    </div>
+  );
+}
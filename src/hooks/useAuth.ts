@@ -1,18 +1,57 @@
 import { useEffect, useState } from 'react';
 import { Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { needsSecondFactor } from '../lib/mfa';
+
+const RECOVERY_KEY = 'passwordRecovery';
+
+// Emailed links and OAuth providers report their outcome in the URL, which
+// supabase-js strips once it has restored the session, so it is read as
+// soon as the app loads
+const redirectParams = new URLSearchParams(
+  window.location.hash.slice(1) || window.location.search
+);
+
+// A reset link signs the user in with a recovery session. The event only
+// fires after the session is restored, so the link itself is checked too.
+if (redirectParams.get('type') === 'recovery') {
+  sessionStorage.setItem(RECOVERY_KEY, 'true');
+}
+
+// e.g. an expired magic link or an identity already linked to someone else
+const redirectError = redirectParams.get('error_description');
 
 export function useAuth() {
   const [session, setSession] = useState<Session | null>(null);
+  // Until the stored session is restored, routes cannot tell whether the
+  // user is signed in and would bounce deep links to the sign-in page
+  const [isInitializing, setIsInitializing] = useState(true);
+  // Kept in session storage so reloading does not skip choosing a password
+  const [isRecoveringPassword, setIsRecoveringPassword] = useState(
+    () => sessionStorage.getItem(RECOVERY_KEY) === 'true'
+  );
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
+      // An expired or reused reset link leaves no session to recover
+      if (!session) {
+        sessionStorage.removeItem(RECOVERY_KEY);
+        setIsRecoveringPassword(false);
+      }
       setSession(session);
+      setIsInitializing(false);
     });
 
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        sessionStorage.setItem(RECOVERY_KEY, 'true');
+        setIsRecoveringPassword(true);
+      } else if (event === 'SIGNED_OUT') {
+        sessionStorage.removeItem(RECOVERY_KEY);
+        setIsRecoveringPassword(false);
+      }
       setSession(session);
     });
 
@@ -23,5 +62,19 @@ export function useAuth() {
     await supabase.auth.signOut();
   };
 
-  return { session, signOut };
-}
\ No newline at end of file
+  const endPasswordRecovery = () => {
+    sessionStorage.removeItem(RECOVERY_KEY);
+    setIsRecoveringPassword(false);
+  };
+
+  return {
+    session,
+    // A password alone is not enough once the user has enrolled a factor
+    isAwaitingSecondFactor: session !== null && needsSecondFactor(session),
+    isInitializing,
+    isRecoveringPassword,
+    endPasswordRecovery,
+    redirectError,
+    signOut
+  };
+}
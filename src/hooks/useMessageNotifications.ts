@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { playDing, unlockAudio } from '../lib/ding';
+import { decodeMentions, mentionedUserIds } from '../lib/mentions';
+import type { Message } from '../lib/repository/messages';
+import type { RoomKind } from '../lib/repository/rooms';
+import {
+  NotificationLevel,
+  listNotificationPreferences
+} from '../lib/repository/memberships';
+import { getProfiles } from './useProfiles';
+import { isDoNotDisturb, useUserSettings } from './useUserSettings';
+
+interface RoomPreference {
+  level: NotificationLevel;
+  name: string;
+  kind: RoomKind;
+}
+
+type IncomingMessage = Pick<
+  Message,
+  'id' | 'room_id' | 'user_id' | 'content' | 'message_type' | 'file_name' | 'mentions'
+>;
+
+const describeMessage = async (message: IncomingMessage) => {
+  if (message.message_type === 'image') return 'Sent an image';
+  if (message.message_type === 'file') return `Sent ${message.file_name ?? 'a file'}`;
+
+  const profiles = await getProfiles(mentionedUserIds(message.content));
+  return decodeMentions(
+    message.content,
+    Object.fromEntries(Object.values(profiles).map((profile) => [profile.id, profile.display_name]))
+  );
+};
+
+const isLooking = () => document.visibilityState === 'visible' && document.hasFocus();
+
+const isLookingAt = (roomId: string, activeRoomId: string | null) =>
+  roomId === activeRoomId && isLooking();
+
+const withoutRooms = (counts: Record<string, number>, keep: (roomId: string) => boolean) => {
+  const kept = Object.entries(counts).filter(([roomId]) => keep(roomId));
+  return kept.length === Object.keys(counts).length ? counts : Object.fromEntries(kept);
+};
+
+/**
+ * Plays the ding and shows a desktop notification for new messages,
+ * following each room's notification level and the do-not-disturb
+ * schedule. Returns how many such messages arrived while the user was not
+ * looking, for the tab title. A room's messages stop counting once the user
+ * looks at that room.
+ */
+export function useMessageNotifications(
+  session: Session | null,
+  activeRoomId: string | null,
+  onOpenRoom: (roomId: string) => void
+) {
+  const userId = session?.user.id ?? '';
+  const settings = useUserSettings(userId);
+  const [unseenByRoom, setUnseenByRoom] = useState<Record<string, number>>({});
+  const preferencesRef = useRef<Record<string, RoomPreference>>({});
+  // Read from the realtime callback, which is only subscribed once
+  const stateRef = useRef({ settings, activeRoomId, onOpenRoom });
+  stateRef.current = { settings, activeRoomId, onOpenRoom };
+
+  useEffect(() => {
+    const handleSeen = () => {
+      const { activeRoomId } = stateRef.current;
+      if (activeRoomId && isLooking()) {
+        setUnseenByRoom((counts) => withoutRooms(counts, (roomId) => roomId !== activeRoomId));
+      }
+    };
+
+    window.addEventListener('focus', handleSeen);
+    document.addEventListener('visibilitychange', handleSeen);
+    window.addEventListener('pointerdown', unlockAudio, { once: true });
+    window.addEventListener('keydown', unlockAudio, { once: true });
+
+    return () => {
+      window.removeEventListener('focus', handleSeen);
+      document.removeEventListener('visibilitychange', handleSeen);
+      window.removeEventListener('pointerdown', unlockAudio);
+      window.removeEventListener('keydown', unlockAudio);
+    };
+  }, []);
+
+  // Opening a room reads it
+  useEffect(() => {
+    if (activeRoomId && isLooking()) {
+      setUnseenByRoom((counts) => withoutRooms(counts, (roomId) => roomId !== activeRoomId));
+    }
+  }, [activeRoomId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const fetchPreferences = async () => {
+      const rows = await listNotificationPreferences(userId).catch(() => null);
+      if (!rows) return;
+
+      const preferences: Record<string, RoomPreference> = Object.fromEntries(
+        rows.map((row) => [
+          row.room_id,
+          {
+            level: row.notification_level,
+            name: row.rooms?.name ?? '',
+            kind: row.rooms?.kind ?? 'group'
+          }
+        ])
+      );
+      preferencesRef.current = preferences;
+      // Rooms the user has left have nothing left to read
+      setUnseenByRoom((counts) => withoutRooms(counts, (roomId) => roomId in preferences));
+    };
+
+    const handleMessage = async (message: IncomingMessage) => {
+      const { settings, activeRoomId } = stateRef.current;
+      const preference = preferencesRef.current[message.room_id];
+      if (message.user_id === userId || !preference) return;
+
+      const isMention = message.mentions.includes(userId);
+      if (preference.level === 'muted' || (preference.level === 'mentions' && !isMention)) return;
+      if (isLookingAt(message.room_id, activeRoomId)) return;
+
+      setUnseenByRoom((counts) => ({
+        ...counts,
+        [message.room_id]: (counts[message.room_id] ?? 0) + 1
+      }));
+      if (isDoNotDisturb(settings)) return;
+
+      if (settings.sound_enabled) {
+        playDing();
+      }
+
+      if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+      const [profiles, body] = await Promise.all([
+        getProfiles([message.user_id]),
+        describeMessage(message)
+      ]);
+      const author = profiles[message.user_id]?.display_name ?? 'Someone';
+      const notification = new Notification(
+        preference.kind === 'direct' ? author : `${author} in #${preference.name}`,
+        { body: body.slice(0, 200), tag: message.room_id }
+      );
+      notification.onclick = () => {
+        window.focus();
+        stateRef.current.onOpenRoom(message.room_id);
+        notification.close();
+      };
+    };
+
+    fetchPreferences();
+
+    const channel = supabase
+      .channel('message-notifications')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          handleMessage(payload.new as IncomingMessage);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'room_users', filter: `user_id=eq.${userId}` },
+        () => {
+          fetchPreferences();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [userId]);
+
+  return Object.values(unseenByRoom).reduce((total, count) => total + count, 0);
+}
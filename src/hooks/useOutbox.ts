@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  OutboxEntry,
+  listOutboxEntries,
+  removeOutboxEntry,
+  saveOutboxEntry
+} from '../lib/outbox';
+import { errorMessage, showError } from '../lib/errors';
+import { Message, sendTextMessage } from '../lib/repository/messages';
+
+// IndexedDB can refuse writes, e.g. when the disk is full. The message is
+// still sent, it just would not survive a reload.
+const persist = (write: Promise<unknown>) =>
+  write.catch((error) => showError(error, 'Could not save the message on this device'));
+
+/**
+ * Optimistic text sending for a room. Messages show up as pending right
+ * away, are kept in IndexedDB until the server has them, and are retried
+ * when the browser comes back online. Entries for other rooms are flushed
+ * too but only the current room's are returned.
+ */
+export function useOutbox(roomId: string, userId: string, onSent: (message: Message) => void) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const onSentRef = useRef(onSent);
+  onSentRef.current = onSent;
+  const roomIdRef = useRef(roomId);
+  roomIdRef.current = roomId;
+
+  const track = (entry: OutboxEntry | null, id: string) => {
+    setEntries((current) => {
+      const others = current.filter((candidate) => candidate.id !== id);
+      return entry && entry.room_id === roomIdRef.current ? [...others, entry] : others;
+    });
+  };
+
+  const deliver = useCallback(
+    async (entry: OutboxEntry) => {
+      const sending = { ...entry, status: 'sending' as const, error: null };
+      track(sending, entry.id);
+      await persist(saveOutboxEntry(sending));
+
+      let sent: Message;
+      try {
+        sent = await sendTextMessage({
+          id: entry.id,
+          content: entry.content,
+          user_id: userId,
+          mentions: entry.mentions,
+          room_id: entry.room_id
+        });
+      } catch (error) {
+        const failed = { ...entry, status: 'failed' as const, error: errorMessage(error) };
+        track(failed, entry.id);
+        await persist(saveOutboxEntry(failed));
+        return;
+      }
+
+      track(null, entry.id);
+      await persist(removeOutboxEntry(entry.id));
+      if (sent.room_id === roomIdRef.current) {
+        onSentRef.current(sent);
+      }
+    },
+    [userId]
+  );
+
+  // Retry everything still queued, in the order it was written
+  const flush = useCallback(async () => {
+    try {
+      const queued = await listOutboxEntries(userId);
+      for (const entry of queued) {
+        await deliver(entry);
+      }
+    } catch (error) {
+      showError(error, 'Could not read unsent messages');
+    }
+  }, [userId, deliver]);
+
+  useEffect(() => {
+    const showQueued = async () => {
+      try {
+        const queued = await listOutboxEntries(userId);
+        // Anything left from an earlier session did not make it
+        setEntries(
+          queued
+            .filter((entry) => entry.room_id === roomId)
+            .map((entry) => ({ ...entry, status: 'failed' as const }))
+        );
+      } catch (error) {
+        showError(error, 'Could not read unsent messages');
+        return;
+      }
+      if (navigator.onLine) {
+        flush();
+      }
+    };
+
+    showQueued();
+  }, [roomId, userId, flush]);
+
+  useEffect(() => {
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, [flush]);
+
+  const send = (content: string, mentions: string[]) => {
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      room_id: roomId,
+      user_id: userId,
+      content,
+      mentions,
+      created_at: new Date().toISOString(),
+      status: 'sending',
+      error: null
+    };
+
+    if (navigator.onLine) {
+      deliver(entry);
+    } else {
+      const failed = { ...entry, status: 'failed' as const, error: 'You are offline' };
+      track(failed, entry.id);
+      persist(saveOutboxEntry(failed));
+    }
+  };
+
+  const retry = (id: string) => {
+    const entry = entries.find((candidate) => candidate.id === id);
+    if (entry) {
+      deliver(entry);
+    }
+  };
+
+  const discard = (id: string) => {
+    track(null, id);
+    persist(removeOutboxEntry(id));
+  };
+
+  return { entries, send, retry, discard };
+}
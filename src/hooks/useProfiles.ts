@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Profile, listProfiles } from '../lib/repository/profiles';
+
+// Profiles are shared by every component, so they are cached at module level
+// and each hook instance re-renders when the cache changes
+const cache = new Map<string, Profile>();
+const pending = new Set<string>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const updateCachedProfile = (profile: Profile) => {
+  cache.set(profile.id, profile);
+  notify();
+};
+
+const loadProfiles = async (ids: string[]) => {
+  const missing = ids.filter((id) => !cache.has(id) && !pending.has(id));
+  if (missing.length === 0) return;
+
+  missing.forEach((id) => pending.add(id));
+  // Profiles that fail to load are retried the next time they are asked for
+  const profiles = await listProfiles(missing).catch(() => []);
+  missing.forEach((id) => pending.delete(id));
+
+  profiles.forEach((profile) => cache.set(profile.id, profile));
+  notify();
+};
+
+/**
+ * Loads profiles outside of React, e.g. for notification text. Profiles
+ * still being fetched by another caller may be missing from the result.
+ */
+export const getProfiles = async (ids: string[]) => {
+  await loadProfiles(ids);
+  return Object.fromEntries(
+    ids.filter((id) => cache.has(id)).map((id) => [id, cache.get(id) as Profile])
+  ) as Record<string, Profile>;
+};
+
+let subscribers = 0;
+let channel: ReturnType<typeof supabase.channel> | null = null;
+
+// One realtime subscription is shared by all mounted hooks
+const subscribe = () => {
+  subscribers += 1;
+  if (channel) return;
+
+  channel = supabase
+    .channel('profiles')
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'profiles' },
+      (payload) => {
+        const profile = payload.new as Profile;
+        if (cache.has(profile.id)) {
+          updateCachedProfile(profile);
+        }
+      }
+    )
+    .subscribe();
+};
+
+const unsubscribe = () => {
+  subscribers -= 1;
+  if (subscribers === 0 && channel) {
+    channel.unsubscribe();
+    channel = null;
+  }
+};
+
+/**
+ * Returns the profiles for `userIds`, fetching any that are not cached yet.
+ */
+export function useProfiles(userIds: string[]) {
+  const [, setVersion] = useState(0);
+  const idsKey = [...new Set(userIds)].sort().join(',');
+
+  useEffect(() => {
+    const listener = () => setVersion((version) => version + 1);
+    listeners.add(listener);
+    subscribe();
+
+    return () => {
+      listeners.delete(listener);
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (idsKey) {
+      loadProfiles(idsKey.split(','));
+    }
+  }, [idsKey]);
+
+  return Object.fromEntries(
+    userIds.filter((id) => cache.has(id)).map((id) => [id, cache.get(id) as Profile])
+  ) as Record<string, Profile>;
+}
+
+export function useProfile(userId: string): Profile | undefined {
+  return useProfiles([userId])[userId];
+}
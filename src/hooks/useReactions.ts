@@ -0,0 +1,97 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { showError } from '../lib/errors';
+import {
+  Reaction,
+  ReactionKey,
+  addReaction,
+  listReactions,
+  removeReaction
+} from '../lib/repository/messages';
+
+const reactionKey = (reaction: ReactionKey) =>
+  `${reaction.message_id}:${reaction.user_id}:${reaction.emoji}`;
+
+const withReaction = (reactions: Reaction[], reaction: Reaction) =>
+  reactions.some((r) => reactionKey(r) === reactionKey(reaction))
+    ? reactions
+    : [...reactions, reaction];
+
+const withoutReaction = (reactions: Reaction[], reaction: ReactionKey) => reactions.filter((r) => reactionKey(r) !== reactionKey(reaction));
+
+export function useReactions(roomId: string, userId: string, messageIds: string[]) {
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const messageIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    messageIdsRef.current = new Set(messageIds);
+  }, [messageIds]);
+
+  useEffect(() => {
+    const fetchReactions = async () => {
+      try {
+        setReactions(await listReactions(roomId));
+      } catch {
+        toast.error('Failed to fetch reactions');
+      }
+    };
+
+    fetchReactions();
+
+    // message_reactions has no room_id column to filter on, so events for
+    // other rooms are dropped here by checking against the loaded messages
+    const channel = supabase
+      .channel(`message_reactions:${roomId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'message_reactions' },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            const reaction = payload.new as Reaction;
+            if (messageIdsRef.current.has(reaction.message_id)) {
+              setReactions((current) => withReaction(current, reaction));
+            }
+          } else if (payload.eventType === 'DELETE') {
+            setReactions((current) => withoutReaction(current, payload.old as Reaction));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [roomId]);
+
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    const reaction = {
+      message_id: messageId,
+      user_id: userId,
+      emoji,
+      created_at: new Date().toISOString()
+    };
+    const existing = reactions.some((r) => reactionKey(r) === reactionKey(reaction));
+
+    // Update locally first; the realtime event for our own change is a no-op
+    setReactions((current) =>
+      existing ? withoutReaction(current, reaction) : withReaction(current, reaction)
+    );
+
+    try {
+      if (existing) {
+        await removeReaction(reaction);
+      } else {
+        await addReaction({ message_id: messageId, user_id: userId, emoji });
+      }
+    } catch (error) {
+      showError(error);
+      // Roll back the optimistic change
+      setReactions((current) =>
+        existing ? withReaction(current, reaction) : withoutReaction(current, reaction)
+      );
+    }
+  };
+
+  return { reactions, toggleReaction };
+}
@@ -0,0 +1,96 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { markRoomRead } from '../lib/repository/memberships';
+
+// Batch marker updates so scrolling through history sends one request
+const FLUSH_DELAY_MS = 1000;
+
+// Postgres timestamps carry microseconds, which a Date drops. A marker cut
+// to the millisecond would sit just before the message it points at and
+// leave it unread, so markers keep the timestamp as the server sent it and
+// are ordered by this key.
+const timestampKey = (timestamp: string) => {
+  const micros = timestamp.match(/\.\d{3}(\d{1,3})/)?.[1] ?? '';
+  return Date.parse(timestamp) * 1000 + Number(micros.padEnd(3, '0'));
+};
+
+/**
+ * Watches message elements inside `containerRef` and moves the caller's
+ * `room_users.last_read_at` forward as messages scroll into view. Message
+ * elements are found by their `data-message-created-at` attribute.
+ */
+export function useReadMarker(
+  roomId: string,
+  containerRef: RefObject<HTMLElement>,
+  messageCount: number
+) {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let readUpTo: { key: number; timestamp: string } | null = null;
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const flush = () => {
+      flushTimer = undefined;
+      if (!readUpTo) return;
+      // A missed update is caught up by the next one
+      markRoomRead(roomId, readUpTo.timestamp).catch(() => undefined);
+    };
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (document.visibilityState !== 'visible') return;
+
+        const previous = readUpTo;
+        entries.forEach((entry) => {
+          const timestamp = (entry.target as HTMLElement).dataset.messageCreatedAt;
+          if (!entry.isIntersecting || !timestamp) return;
+
+          const key = timestampKey(timestamp);
+          if (!readUpTo || key > readUpTo.key) readUpTo = { key, timestamp };
+        });
+
+        if (!readUpTo || readUpTo === previous) return;
+
+        clearTimeout(flushTimer);
+        flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+      },
+      { root: container, threshold: 0.5 }
+    );
+    observerRef.current = observer;
+
+    // Messages that arrived while the tab was hidden count once it is shown
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      observer.disconnect();
+      container
+        .querySelectorAll<HTMLElement>('[data-message-created-at]')
+        .forEach((element) => observer.observe(element));
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flush();
+      }
+    };
+  }, [roomId, containerRef]);
+
+  // Observing an element twice is a no-op, so new messages can just be added
+  useEffect(() => {
+    const container = containerRef.current;
+    const observer = observerRef.current;
+    if (!container || !observer) return;
+
+    container
+      .querySelectorAll<HTMLElement>('[data-message-created-at]')
+      .forEach((element) => observer.observe(element));
+  }, [roomId, containerRef, messageCount]);
+}
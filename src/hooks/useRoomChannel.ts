@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RealtimeChannel, Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+
+export type PresenceStatus = 'online' | 'idle' | 'away';
+
+export interface PresenceMember {
+  user_id: string;
+  status: PresenceStatus;
+  online_at: string;
+}
+
+export interface TypingUser {
+  user_id: string;
+}
+
+interface TypingPayload extends TypingUser {
+  typing: boolean;
+}
+
+// Time without input before a visible tab is reported as idle
+const IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Minimum gap between two "typing" broadcasts from this client
+const TYPING_THROTTLE_MS = 2000;
+
+// A typing indicator disappears if it is not refreshed within this time
+const TYPING_TIMEOUT_MS = 5000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'pointerdown', 'touchstart', 'focus'];
+
+export const roomChannelName = (roomId: string) => `room:${roomId}`;
+
+// Presence keys are user ids, so several tabs of one user collapse into one
+// member; the most active of their connections wins
+const collapsePresence = (channel: RealtimeChannel): PresenceMember[] => {
+  const rank: Record<PresenceStatus, number> = { online: 0, idle: 1, away: 2 };
+  const state = channel.presenceState<PresenceMember>();
+
+  return Object.values(state)
+    .map((connections) =>
+      connections.reduce((best, current) =>
+        rank[current.status] < rank[best.status] ? current : best
+      )
+    )
+    .map(({ user_id, status, online_at }) => ({ user_id, status, online_at }))
+    .sort((a, b) => rank[a.status] - rank[b.status] || a.online_at.localeCompare(b.online_at));
+};
+
+/**
+ * Joins the room's realtime channel and tracks this tab as a live connection.
+ * This is separate from `room_users` membership: leaving the room view ends
+ * the connection but keeps the membership row.
+ *
+ * The same channel carries typing indicators as broadcast events, which are
+ * never written to the database.
+ */
+export function useRoomChannel(roomId: string, session: Session) {
+  const [members, setMembers] = useState<PresenceMember[]>([]);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const typingTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const lastTypingSentRef = useRef(0);
+  const [status, setStatus] = useState<PresenceStatus>(
+    document.visibilityState === 'hidden' ? 'away' : 'online'
+  );
+  const [channel, setChannel] = useState<RealtimeChannel | null>(null);
+
+  useEffect(() => {
+    const roomChannel = supabase.channel(roomChannelName(roomId), {
+      config: { presence: { key: session.user.id } }
+    });
+
+    const typingTimers = typingTimersRef.current;
+
+    const clearTyping = (userId: string) => {
+      clearTimeout(typingTimers.get(userId));
+      typingTimers.delete(userId);
+      setTypingUsers((current) => current.filter((user) => user.user_id !== userId));
+    };
+
+    roomChannel
+      .on('presence', { event: 'sync' }, () => {
+        setMembers(collapsePresence(roomChannel));
+      })
+      .on('presence', { event: 'leave' }, ({ key }) => {
+        // A user who closed the room cannot still be typing in it
+        if (!roomChannel.presenceState()[key]) {
+          clearTyping(key);
+        }
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const { user_id, typing } = payload as TypingPayload;
+        if (!typing) {
+          clearTyping(user_id);
+          return;
+        }
+
+        clearTimeout(typingTimers.get(user_id));
+        typingTimers.set(user_id, setTimeout(() => clearTyping(user_id), TYPING_TIMEOUT_MS));
+        setTypingUsers((current) =>
+          current.some((user) => user.user_id === user_id)
+            ? current
+            : [...current, { user_id }]
+        );
+      })
+      .subscribe((subscribeStatus) => {
+        if (subscribeStatus === 'SUBSCRIBED') {
+          setChannel(roomChannel);
+        }
+      });
+
+    return () => {
+      typingTimers.forEach((timer) => clearTimeout(timer));
+      typingTimers.clear();
+      setChannel(null);
+      setMembers([]);
+      setTypingUsers([]);
+      // Tell others we stopped typing before the connection goes away
+      if (lastTypingSentRef.current !== 0) {
+        lastTypingSentRef.current = 0;
+        roomChannel.send({
+          type: 'broadcast',
+          event: 'typing',
+          payload: { user_id: session.user.id, typing: false }
+        });
+      }
+      roomChannel.untrack();
+      roomChannel.unsubscribe();
+    };
+  }, [roomId, session.user.id]);
+
+  const sendTyping = useCallback(
+    (typing: boolean) => {
+      if (!channel) return;
+
+      if (typing) {
+        const now = Date.now();
+        if (now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+        lastTypingSentRef.current = now;
+      } else {
+        // Nothing to clear if we never announced that we were typing
+        if (lastTypingSentRef.current === 0) return;
+        lastTypingSentRef.current = 0;
+      }
+
+      channel.send({
+        type: 'broadcast',
+        event: 'typing',
+        payload: { user_id: session.user.id, typing }
+      });
+    },
+    [channel, session.user.id]
+  );
+
+  const notifyTyping = useCallback(() => sendTyping(true), [sendTyping]);
+  const stopTyping = useCallback(() => sendTyping(false), [sendTyping]);
+
+  // Re-track whenever our own status changes so others see it update
+  useEffect(() => {
+    if (!channel) return;
+
+    channel.track({
+      user_id: session.user.id,
+      status,
+      online_at: new Date().toISOString()
+    });
+  }, [channel, status, session.user.id]);
+
+  useEffect(() => {
+    let idleTimer: ReturnType<typeof setTimeout>;
+
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      if (document.visibilityState === 'hidden') return;
+      setStatus('online');
+      idleTimer = setTimeout(() => setStatus('idle'), IDLE_TIMEOUT_MS);
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        clearTimeout(idleTimer);
+        setStatus('away');
+      } else {
+        resetIdleTimer();
+      }
+    };
+
+    resetIdleTimer();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetIdleTimer));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearTimeout(idleTimer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetIdleTimer));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  return { members, typingUsers, notifyTyping, stopTyping };
+}
+
+/**
+ * Observes the presence of several rooms without tracking this client, and
+ * returns the number of distinct users connected to each.
+ */
+export function useRoomOnlineCounts(roomIds: string[]) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const roomIdsKey = roomIds.join(',');
+
+  useEffect(() => {
+    const ids = roomIdsKey ? roomIdsKey.split(',') : [];
+    const channels = ids.map((roomId) => {
+      const roomChannel = supabase.channel(roomChannelName(roomId));
+
+      roomChannel
+        .on('presence', { event: 'sync' }, () => {
+          const count = Object.keys(roomChannel.presenceState()).length;
+          setCounts((current) => ({ ...current, [roomId]: count }));
+        })
+        .subscribe();
+
+      return roomChannel;
+    });
+
+    return () => {
+      channels.forEach((roomChannel) => roomChannel.unsubscribe());
+    };
+  }, [roomIdsKey]);
+
+  return counts;
+}
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { ATTACHMENTS_BUCKET, createAttachmentUrl } from '../lib/repository/storage';
+
+// Signed URLs are valid for an hour and reused until shortly before expiry
+const URL_LIFETIME_SECONDS = 60 * 60;
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const cache = new Map<string, { url: string; expiresAt: number }>();
+
+// Cached per bucket, since legacy images live in a bucket of their own
+const cacheKey = (bucket: string, path: string) => `${bucket}/${path}`;
+
+const cachedUrl = (key: string) => {
+  const entry = cache.get(key);
+  return entry && entry.expiresAt - REFRESH_MARGIN_MS > Date.now() ? entry.url : null;
+};
+
+/**
+ * Returns a signed URL for a private attachment, or null while it is being
+ * created. Storage only signs paths the current user is allowed to read.
+ */
+export function useSignedUrl(path: string | null, bucket = ATTACHMENTS_BUCKET) {
+  const [url, setUrl] = useState<string | null>(() =>
+    path ? cachedUrl(cacheKey(bucket, path)) : null
+  );
+
+  useEffect(() => {
+    if (!path) {
+      setUrl(null);
+      return;
+    }
+
+    const key = cacheKey(bucket, path);
+    const cached = cachedUrl(key);
+    if (cached) {
+      setUrl(cached);
+      return;
+    }
+
+    let isCancelled = false;
+    createAttachmentUrl(path, URL_LIFETIME_SECONDS, bucket)
+      .then((signedUrl) => {
+        cache.set(key, {
+          url: signedUrl,
+          expiresAt: Date.now() + URL_LIFETIME_SECONDS * 1000
+        });
+        if (!isCancelled) setUrl(signedUrl);
+      })
+      // Files the user cannot read keep showing their placeholder
+      .catch(() => undefined);
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [path, bucket]);
+
+  return url;
+}
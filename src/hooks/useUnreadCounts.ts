@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { getUnreadCounts } from '../lib/repository/rooms';
+
+const increment = (counts: Record<string, number>, roomId: string) =>
+  roomId in counts ? { ...counts, [roomId]: counts[roomId] + 1 } : counts;
+
+/**
+ * Unread message and mention counts for every room the user is a member
+ * of, kept up to date from realtime message inserts while the component is
+ * mounted.
+ */
+export function useUnreadCounts(userId: string) {
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [mentionCounts, setMentionCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    const fetchCounts = async () => {
+      const rows = await getUnreadCounts().catch(() => null);
+      if (!rows) return;
+
+      setUnreadCounts(Object.fromEntries(rows.map((row) => [row.room_id, row.unread_count])));
+      setMentionCounts(Object.fromEntries(rows.map((row) => [row.room_id, row.mention_count])));
+    };
+
+    fetchCounts();
+
+    const channel = supabase
+      .channel('unread-counts')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          const { room_id, user_id, mentions } = payload.new as {
+            room_id: string;
+            user_id: string;
+            mentions: string[];
+          };
+          if (user_id === userId) return;
+
+          // Only rooms we are a member of have an entry to increment
+          setUnreadCounts((current) => increment(current, room_id));
+          if (mentions.includes(userId)) {
+            setMentionCounts((current) => increment(current, room_id));
+          }
+        }
+      )
+      .subscribe();
+
+    window.addEventListener('focus', fetchCounts);
+
+    return () => {
+      window.removeEventListener('focus', fetchCounts);
+      channel.unsubscribe();
+    };
+  }, [userId]);
+
+  return { unreadCounts, mentionCounts };
+}
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isAllowedAttachmentType, validateAttachment } from '../lib/attachments';
+import { errorMessage } from '../lib/errors';
+import { sendAttachmentMessage } from '../lib/repository/messages';
+import { uploadAttachment, uploadThumbnail } from '../lib/repository/storage';
+import { canProcessImage, processImage } from '../lib/images';
+import { mentionedUserIds } from '../lib/mentions';
+
+export type UploadStatus = 'queued' | 'uploading' | 'failed' | 'cancelled';
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  previewUrl: string | null;
+  status: UploadStatus;
+  progress: number;
+  error: string | null;
+  // Caption sent as the content of this file's message, if any
+  caption: string;
+}
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Files waiting to be sent to a room. Files are uploaded one at a time in
+ * the order they were added, so their messages keep that order; failed or
+ * cancelled files stay in the queue with their error until retried or removed.
+ */
+export function useUploadQueue(roomId: string, userId: string) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const updateItem = (id: string, changes: Partial<UploadItem>) =>
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+
+  const dropItem = (id: string) => {
+    setItems((current) => {
+      const item = current.find((candidate) => candidate.id === id);
+      if (item?.previewUrl) URL.revokeObjectURL(item.previewUrl);
+      return current.filter((candidate) => candidate.id !== id);
+    });
+  };
+
+  // Revoke previews and stop uploads when leaving the room
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+      itemsRef.current.forEach((item) => item.previewUrl && URL.revokeObjectURL(item.previewUrl));
+      setItems([]);
+    };
+  }, [roomId]);
+
+  const addFiles = useCallback((files: File[]) => {
+    setItems((current) => [
+      ...current,
+      ...files.map((file) => {
+        const isAllowed = isAllowedAttachmentType(file.type);
+        return {
+          id: crypto.randomUUID(),
+          file,
+          previewUrl: isAllowed && file.type.startsWith('image/') ? URL.createObjectURL(file) : null,
+          status: isAllowed ? ('queued' as const) : ('failed' as const),
+          progress: 0,
+          error: isAllowed ? null : `${file.name}: this file type is not allowed`,
+          caption: ''
+        };
+      })
+    ]);
+  }, []);
+
+  const uploadItem = async (item: UploadItem) => {
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', progress: 0, error: null });
+
+    try {
+      // Images are shrunk and stripped of metadata before the limits apply
+      const image = canProcessImage(item.file) ? await processImage(item.file) : null;
+      const upload = image?.file ?? item.file;
+
+      const validationError = validateAttachment(upload);
+      if (validationError) throw new Error(validationError);
+
+      const filePath = await uploadAttachment(roomId, userId, upload, {
+        signal: controller.signal,
+        onProgress: (progress) => updateItem(item.id, { progress })
+      });
+      const thumbnailPath = image
+        ? await uploadThumbnail(filePath, image.thumbnail, { signal: controller.signal })
+        : null;
+      const isImage = upload.type.startsWith('image/');
+
+      await sendAttachmentMessage({
+        content: item.caption,
+        mentions: mentionedUserIds(item.caption),
+        user_id: userId,
+        message_type: isImage ? 'image' : 'file',
+        file_path: filePath,
+        file_name: upload.name,
+        file_size: upload.size,
+        file_mime: upload.type,
+        thumbnail_path: thumbnailPath,
+        image_width: image?.width ?? null,
+        image_height: image?.height ?? null,
+        blur_placeholder: image?.placeholder ?? null,
+        room_id: roomId
+      });
+      dropItem(item.id);
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateItem(item.id, { status: 'cancelled', progress: 0, error: 'Upload cancelled' });
+      } else {
+        updateItem(item.id, {
+          status: 'failed',
+          progress: 0,
+          error: errorMessage(error, 'Upload failed')
+        });
+      }
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  };
+
+  // The caption goes out with the first file of the batch
+  const sendAll = async (caption: string) => {
+    const queued = itemsRef.current.filter((item) => item.status === 'queued');
+    for (const [index, item] of queued.entries()) {
+      // Skip files removed from the tray while earlier ones were uploading
+      if (!itemsRef.current.some((current) => current.id === item.id)) continue;
+
+      const withCaption = { ...item, caption: index === 0 ? caption.trim() : '' };
+      updateItem(item.id, { caption: withCaption.caption });
+      await uploadItem(withCaption);
+    }
+  };
+
+  const retryItem = (id: string) => {
+    const item = itemsRef.current.find((candidate) => candidate.id === id);
+    if (item && (item.status === 'failed' || item.status === 'cancelled')) {
+      uploadItem(item);
+    }
+  };
+
+  // Cancels a running upload, or takes a file that is not uploading out of the queue
+  const removeItem = (id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      dropItem(id);
+    }
+  };
+
+  return {
+    items,
+    hasQueuedFiles: items.some((item) => item.status === 'queued'),
+    isUploading: items.some((item) => item.status === 'uploading'),
+    addFiles,
+    sendAll,
+    retryItem,
+    removeItem
+  };
+}
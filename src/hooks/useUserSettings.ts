@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import {
+  UserSettings,
+  UserSettingsChanges,
+  getUserSettings,
+  upsertUserSettings
+} from '../lib/repository/account';
+
+const DEFAULT_SETTINGS: UserSettings = {
+  sound_enabled: true,
+  dnd_enabled: false,
+  dnd_start: '22:00:00',
+  dnd_end: '08:00:00'
+};
+
+// Settings are read by the notifier and edited in ProfileSettings, so they
+// share one module-level copy like profiles do
+let cache: { userId: string; settings: UserSettings } | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const loadSettings = async (userId: string) => {
+  if (cache?.userId === userId) return;
+
+  const settings = await getUserSettings(userId).catch(() => null);
+
+  cache = { userId, settings: settings ?? DEFAULT_SETTINGS };
+  notify();
+};
+
+export const saveUserSettings = async (userId: string, changes: UserSettingsChanges) => {
+  cache = { userId, settings: await upsertUserSettings(userId, changes) };
+  notify();
+};
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `date` falls in the do-not-disturb window, which may wrap past
+ * midnight (e.g. 22:00 to 08:00).
+ */
+export const isDoNotDisturb = (settings: UserSettings, date = new Date()) => {
+  if (!settings.dnd_enabled) return false;
+
+  const now = date.getHours() * 60 + date.getMinutes();
+  const start = minutesOf(settings.dnd_start);
+  const end = minutesOf(settings.dnd_end);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+export function useUserSettings(userId: string) {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    const listener = () => setVersion((version) => version + 1);
+    listeners.add(listener);
+    if (userId) {
+      loadSettings(userId);
+    }
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }, [userId]);
+
+  return cache?.userId === userId ? cache.settings : DEFAULT_SETTINGS;
+}
@@ -0,0 +1,49 @@
+const DEFAULT_ALLOWED_TYPES = [
+  'image/*',
+  'text/plain',
+  'text/csv',
+  'application/pdf',
+  'application/zip',
+  'application/x-7z-compressed',
+  'application/gzip',
+  'application/x-tar',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+];
+
+// Limits can be tightened per deployment; they should not exceed the
+// bucket's own limits or uploads will be rejected by storage instead
+export const MAX_ATTACHMENT_BYTES =
+  Number(import.meta.env.VITE_MAX_ATTACHMENT_MB || 25) * 1024 * 1024;
+
+export const ALLOWED_ATTACHMENT_TYPES: string[] = import.meta.env.VITE_ALLOWED_ATTACHMENT_TYPES
+  ? import.meta.env.VITE_ALLOWED_ATTACHMENT_TYPES.split(',').map((type) => type.trim())
+  : DEFAULT_ALLOWED_TYPES;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const isAllowedAttachmentType = (mime: string) =>
+  ALLOWED_ATTACHMENT_TYPES.some((allowed) =>
+    allowed.endsWith('/*') ? mime.startsWith(allowed.slice(0, -1)) : mime === allowed
+  );
+
+/**
+ * Returns why `file` cannot be attached, or null if it is within the limits.
+ */
+export const validateAttachment = (file: File) => {
+  if (!isAllowedAttachmentType(file.type)) {
+    return `${file.name}: this file type is not allowed`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name}: files must be under ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+};
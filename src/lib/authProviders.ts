@@ -0,0 +1,25 @@
+import type { Provider } from '@supabase/supabase-js';
+import { Chrome, Github, Gitlab, LucideIcon } from 'lucide-react';
+
+export interface OAuthProvider {
+  id: Provider;
+  label: string;
+  icon: LucideIcon;
+}
+
+const KNOWN_PROVIDERS: OAuthProvider[] = [
+  { id: 'github', label: 'GitHub', icon: Github },
+  { id: 'google', label: 'Google', icon: Chrome },
+  { id: 'gitlab', label: 'GitLab', icon: Gitlab }
+];
+
+// Providers must also be enabled in Supabase Auth, so the app only offers
+// the ones listed in VITE_AUTH_PROVIDERS (e.g. `github,google`)
+export const OAUTH_PROVIDERS = (import.meta.env.VITE_AUTH_PROVIDERS ?? '')
+  .split(',')
+  .map((id) => KNOWN_PROVIDERS.find((provider) => provider.id === id.trim().toLowerCase()))
+  .filter((provider): provider is OAuthProvider => provider !== undefined);
+
+export const providerLabel = (id: string) =>
+  KNOWN_PROVIDERS.find((provider) => provider.id === id)?.label ??
+  (id === 'email' ? 'Email' : id);
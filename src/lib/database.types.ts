@@ -0,0 +1,688 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      message_reactions: {
+        Row: {
+          created_at: string | null
+          emoji: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          emoji: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          emoji?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          blur_placeholder: string | null
+          content: string
+          created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
+          file_mime: string | null
+          file_name: string | null
+          file_path: string | null
+          file_size: number | null
+          id: string
+          image_height: number | null
+          image_url: string | null
+          image_width: number | null
+          mentions: string[]
+          message_type: string
+          room_id: string
+          thumbnail_path: string | null
+          user_id: string
+        }
+        Insert: {
+          blur_placeholder?: string | null
+          content: string
+          created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
+          file_mime?: string | null
+          file_name?: string | null
+          file_path?: string | null
+          file_size?: number | null
+          id?: string
+          image_height?: number | null
+          image_url?: string | null
+          image_width?: number | null
+          mentions?: string[]
+          message_type?: string
+          room_id: string
+          thumbnail_path?: string | null
+          user_id: string
+        }
+        Update: {
+          blur_placeholder?: string | null
+          content?: string
+          created_at?: string | null
+          deleted_at?: string | null
+          edited_at?: string | null
+          file_mime?: string | null
+          file_name?: string | null
+          file_path?: string | null
+          file_size?: number | null
+          id?: string
+          image_height?: number | null
+          image_url?: string | null
+          image_width?: number | null
+          mentions?: string[]
+          message_type?: string
+          room_id?: string
+          thumbnail_path?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string
+          created_at: string | null
+          display_name: string
+          id: string
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          bio?: string
+          created_at?: string | null
+          display_name: string
+          id: string
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          bio?: string
+          created_at?: string | null
+          display_name?: string
+          id?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      recovery_code_attempts: {
+        Row: {
+          failures: number
+          locked_until: string | null
+          user_id: string
+        }
+        Insert: {
+          failures?: number
+          locked_until?: string | null
+          user_id: string
+        }
+        Update: {
+          failures?: number
+          locked_until?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      room_bans: {
+        Row: {
+          banned_by: string | null
+          created_at: string | null
+          expires_at: string | null
+          reason: string
+          room_id: string
+          user_id: string
+        }
+        Insert: {
+          banned_by?: string | null
+          created_at?: string | null
+          expires_at?: string | null
+          reason?: string
+          room_id: string
+          user_id: string
+        }
+        Update: {
+          banned_by?: string | null
+          created_at?: string | null
+          expires_at?: string | null
+          reason?: string
+          room_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_bans_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_invites: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          max_uses: number | null
+          revoked_at: string | null
+          room_id: string
+          token: string
+          use_count: number
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          room_id: string
+          token?: string
+          use_count?: number
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          max_uses?: number | null
+          revoked_at?: string | null
+          room_id?: string
+          token?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_invites_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_passwords: {
+        Row: {
+          password_hash: string
+          room_id: string
+        }
+        Insert: {
+          password_hash: string
+          room_id: string
+        }
+        Update: {
+          password_hash?: string
+          room_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_passwords_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: true
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_users: {
+        Row: {
+          joined_at: string | null
+          last_read_at: string
+          notification_level: string
+          role: string
+          room_id: string
+          user_id: string
+        }
+        Insert: {
+          joined_at?: string | null
+          last_read_at?: string
+          notification_level?: string
+          role?: string
+          room_id: string
+          user_id: string
+        }
+        Update: {
+          joined_at?: string | null
+          last_read_at?: string
+          notification_level?: string
+          role?: string
+          room_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_users_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rooms: {
+        Row: {
+          created_at: string | null
+          id: string
+          kind: string
+          max_users: number
+          name: string
+          owner_id: string
+          require_mfa: boolean
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          kind?: string
+          max_users?: number
+          name: string
+          owner_id: string
+          require_mfa?: boolean
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          kind?: string
+          max_users?: number
+          name?: string
+          owner_id?: string
+          require_mfa?: boolean
+        }
+        Relationships: []
+      }
+      storage_cleanup_queue: {
+        Row: {
+          attempts: number
+          bucket_id: string
+          id: number
+          last_error: string | null
+          next_attempt_at: string
+          object_name: string
+          queued_at: string
+        }
+        Insert: {
+          attempts?: number
+          bucket_id: string
+          id?: never
+          last_error?: string | null
+          next_attempt_at?: string
+          object_name: string
+          queued_at?: string
+        }
+        Update: {
+          attempts?: number
+          bucket_id?: string
+          id?: never
+          last_error?: string | null
+          next_attempt_at?: string
+          object_name?: string
+          queued_at?: string
+        }
+        Relationships: []
+      }
+      user_settings: {
+        Row: {
+          dnd_enabled: boolean
+          dnd_end: string
+          dnd_start: string
+          sound_enabled: boolean
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          dnd_enabled?: boolean
+          dnd_end?: string
+          dnd_start?: string
+          sound_enabled?: boolean
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          dnd_enabled?: boolean
+          dnd_end?: string
+          dnd_start?: string
+          sound_enabled?: boolean
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      assert_outranks: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      assert_room_mfa: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: undefined
+      }
+      ban_member: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+          p_duration: unknown
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      can_access_room: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: boolean
+      }
+      create_room: {
+        Args: {
+          p_name: string
+          p_password: string
+          p_max_users: number
+        }
+        Returns: string
+      }
+      create_room_invite: {
+        Args: {
+          p_room_id: string
+          p_expires_in: unknown
+          p_max_uses: number
+        }
+        Returns: string
+      }
+      delete_room: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: undefined
+      }
+      discard_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      generate_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      get_unread_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          room_id: string
+          unread_count: number
+          mention_count: number
+        }[]
+      }
+      is_aal2: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_banned: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_room_member: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: boolean
+      }
+      join_room: {
+        Args: {
+          p_room_id: string
+          p_password: string
+        }
+        Returns: undefined
+      }
+      kick_member: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      mark_room_read: {
+        Args: {
+          p_room_id: string
+          p_read_at: string
+        }
+        Returns: undefined
+      }
+      message_image_path: {
+        Args: {
+          p_image_url: string
+        }
+        Returns: string
+      }
+      queue_storage_cleanup: {
+        Args: {
+          p_bucket_id: string
+          p_object_name: string
+        }
+        Returns: undefined
+      }
+      redeem_recovery_code: {
+        Args: {
+          p_code: string
+        }
+        Returns: boolean
+      }
+      redeem_room_invite: {
+        Args: {
+          p_token: string
+        }
+        Returns: string
+      }
+      revoke_room_invite: {
+        Args: {
+          p_invite_id: string
+        }
+        Returns: undefined
+      }
+      room_role: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: string
+      }
+      set_member_role: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+          p_role: string
+        }
+        Returns: undefined
+      }
+      set_notification_level: {
+        Args: {
+          p_room_id: string
+          p_level: string
+        }
+        Returns: undefined
+      }
+      set_room_password: {
+        Args: {
+          p_room_id: string
+          p_password: string
+        }
+        Returns: undefined
+      }
+      start_direct_conversation: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: string
+      }
+      unban_member: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  PublicTableNameOrOptions extends
+    | keyof (PublicSchema["Tables"] & PublicSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+        Database[PublicTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+      Database[PublicTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : PublicTableNameOrOptions extends keyof (PublicSchema["Tables"] &
+        PublicSchema["Views"])
+    ? (PublicSchema["Tables"] &
+        PublicSchema["Views"])[PublicTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  PublicEnumNameOrOptions extends
+    | keyof PublicSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends PublicEnumNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = PublicEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : PublicEnumNameOrOptions extends keyof PublicSchema["Enums"]
+    ? PublicSchema["Enums"][PublicEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof PublicSchema["CompositeTypes"]
+    | { schema: keyof Database },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof Database
+  }
+    ? keyof Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof PublicSchema["CompositeTypes"]
+    ? PublicSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
@@ -0,0 +1,245 @@
+import {
+  AuthError,
+  type AuthChangeEvent,
+  type Session,
+  type User,
+  type UserIdentity
+} from '@supabase/supabase-js';
+import { now, withDefaults } from './schema';
+import type { DemoStore, Row } from './store';
+
+/**
+ * Demo accounts live in the store next to the public tables, under a name
+ * no query can reach.
+ */
+export const USERS_TABLE = 'auth.users';
+
+// Each tab keeps its own session, so two tabs can chat as different users
+const SESSION_KEY = 'demoSession';
+
+const SESSION_SECONDS = 24 * 60 * 60;
+
+type AuthListener = (event: AuthChangeEvent, session: Session | null) => void;
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// An unsigned token with the claims the app reads, such as `aal`
+const accessToken = (userId: string, expiresAt: number) =>
+  [
+    base64Url({ alg: 'none', typ: 'JWT' }),
+    base64Url({ sub: userId, role: 'authenticated', aal: 'aal1', exp: expiresAt }),
+    ''
+  ].join('.');
+
+const toIdentity = (account: Row): UserIdentity => ({
+  id: account.id as string,
+  identity_id: account.id as string,
+  user_id: account.id as string,
+  provider: 'email',
+  identity_data: { sub: account.id, email: account.email },
+  created_at: account.created_at as string,
+  updated_at: account.created_at as string
+});
+
+const toUser = (account: Row): User => ({
+  id: account.id as string,
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: account.email as string,
+  email_confirmed_at: account.created_at as string,
+  app_metadata: { provider: 'email', providers: ['email'] },
+  user_metadata: {},
+  identities: [toIdentity(account)],
+  created_at: account.created_at as string
+});
+
+const toSession = (account: Row): Session => {
+  const expiresAt = Math.floor(Date.now() / 1000) + SESSION_SECONDS;
+  return {
+    access_token: accessToken(account.id as string, expiresAt),
+    refresh_token: crypto.randomUUID(),
+    token_type: 'bearer',
+    expires_in: SESSION_SECONDS,
+    expires_at: expiresAt,
+    user: toUser(account)
+  };
+};
+
+// Magic links, one-time codes, reauthentication and OAuth need an email
+// service or a provider
+const unavailable = async () => ({
+  data: { user: null, session: null },
+  error: new AuthError('This is not available in demo mode', 400, 'demo_unavailable')
+});
+
+/**
+ * Email and password accounts with the parts of the supabase-js auth
+ * interface the app uses. New accounts are confirmed straight away, and no
+ * account has a second factor.
+ */
+export const createDemoAuth = (store: DemoStore) => {
+  const listeners = new Set<AuthListener>();
+
+  const userId = () => sessionStorage.getItem(SESSION_KEY);
+
+  const currentAccount = () => {
+    const id = userId();
+    return id ? store.find(USERS_TABLE, { id }) : null;
+  };
+
+  const currentSession = () => {
+    const account = currentAccount();
+    return account ? toSession(account) : null;
+  };
+
+  const emit = (event: AuthChangeEvent) => {
+    const session = currentSession();
+    listeners.forEach((listener) => listener(event, session));
+  };
+
+  const findByEmail = (email: string) =>
+    store
+      .rows(USERS_TABLE)
+      .find((account) => (account.email as string).toLowerCase() === email.toLowerCase());
+
+  const signIn = (account: Row) => {
+    sessionStorage.setItem(SESSION_KEY, account.id as string);
+    emit('SIGNED_IN');
+    const session = currentSession();
+    return { data: { user: session?.user ?? null, session }, error: null };
+  };
+
+  const withUser = async () => {
+    await store.ready;
+    const session = currentSession();
+    return { data: { user: session?.user ?? null, session }, error: null };
+  };
+
+  return {
+    userId,
+
+    getSession: withUser,
+    getUser: withUser,
+    refreshSession: withUser,
+
+    onAuthStateChange(callback: AuthListener) {
+      listeners.add(callback);
+      store.ready.then(() => {
+        if (listeners.has(callback)) callback('INITIAL_SESSION', currentSession());
+      });
+
+      return {
+        data: {
+          subscription: {
+            id: crypto.randomUUID(),
+            callback,
+            unsubscribe: () => {
+              listeners.delete(callback);
+            }
+          }
+        }
+      };
+    },
+
+    async signUp({ email, password }: { email: string; password: string }) {
+      await store.ready;
+      if (findByEmail(email)) {
+        return {
+          data: { user: null, session: null },
+          error: new AuthError('User already registered', 422, 'user_already_exists')
+        };
+      }
+
+      const account = store.insert(USERS_TABLE, {
+        id: crypto.randomUUID(),
+        email,
+        password,
+        created_at: now()
+      });
+      // The profile the create_profile_for_user trigger would add
+      store.insert(
+        'profiles',
+        withDefaults('profiles', {
+          id: account.id,
+          display_name: (email.split('@')[0] || 'user').slice(0, 50)
+        })
+      );
+
+      return signIn(account);
+    },
+
+    async signInWithPassword({ email, password }: { email: string; password: string }) {
+      await store.ready;
+      const account = findByEmail(email);
+      if (!account || account.password !== password) {
+        return {
+          data: { user: null, session: null },
+          error: new AuthError('Invalid login credentials', 400, 'invalid_credentials')
+        };
+      }
+
+      return signIn(account);
+    },
+
+    async signOut() {
+      sessionStorage.removeItem(SESSION_KEY);
+      emit('SIGNED_OUT');
+      return { error: null };
+    },
+
+    // Without reauthentication there is no nonce to check
+    async updateUser({ email, password }: { email?: string; password?: string; nonce?: string }) {
+      await store.ready;
+      const account = currentAccount();
+      if (!account) {
+        return {
+          data: { user: null },
+          error: new AuthError('Auth session missing!', 400, 'session_not_found')
+        };
+      }
+      if (email && findByEmail(email)) {
+        return {
+          data: { user: null },
+          error: new AuthError(
+            'A user with this email address has already been registered',
+            422,
+            'email_exists'
+          )
+        };
+      }
+
+      const updated = store.update(USERS_TABLE, account, {
+        ...(email && { email }),
+        ...(password && { password })
+      });
+      emit('USER_UPDATED');
+      return { data: { user: toUser(updated) }, error: null };
+    },
+
+    async getUserIdentities() {
+      await store.ready;
+      const account = currentAccount();
+      return { data: { identities: account ? [toIdentity(account)] : [] }, error: null };
+    },
+
+    resetPasswordForEmail: unavailable,
+    reauthenticate: unavailable,
+    signInWithOtp: unavailable,
+    verifyOtp: unavailable,
+    signInWithOAuth: unavailable,
+    linkIdentity: unavailable,
+    unlinkIdentity: unavailable,
+
+    mfa: {
+      getAuthenticatorAssuranceLevel: async () => ({
+        data: { currentLevel: 'aal1', nextLevel: 'aal1', currentAuthenticationMethods: [] },
+        error: null
+      }),
+      listFactors: async () => ({ data: { all: [], totp: [], phone: [] }, error: null }),
+      enroll: unavailable,
+      challengeAndVerify: unavailable,
+      unenroll: unavailable
+    }
+  };
+};
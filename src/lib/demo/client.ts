@@ -0,0 +1,36 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../database.types';
+import { createDemoAuth } from './auth';
+import { callFunction } from './functions';
+import { DemoQuery } from './query';
+import { createDemoRealtime } from './realtime';
+import type { DemoContext } from './schema';
+import { seedDemoData } from './seed';
+import { createDemoStorage } from './storage';
+import { DemoStore } from './store';
+
+/**
+ * A stand-in for the Supabase client that keeps everything in the browser,
+ * for running the app without a Supabase project. It implements only the
+ * parts of the client the app uses, which is why it is cast to the real
+ * client's type.
+ */
+export const createDemoClient = () => {
+  const store = new DemoStore(seedDemoData);
+  const auth = createDemoAuth(store);
+  const context = (): DemoContext => ({ store, userId: auth.userId() });
+  const realtime = createDemoRealtime(store, context);
+
+  const client = {
+    auth,
+    from: (table: string) => new DemoQuery(table, context()),
+    rpc: (name: string, args: object = {}) => callFunction(name, args, context()),
+    storage: createDemoStorage(store),
+    // The only function is storage-cleanup, and the demo removes files as
+    // soon as their message or room is deleted
+    functions: { invoke: async () => ({ data: null, error: null }) },
+    channel: realtime.channel.bind(realtime)
+  };
+
+  return client as unknown as SupabaseClient<Database>;
+};
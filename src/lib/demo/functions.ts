@@ -0,0 +1,221 @@
+import type { Database } from '../database.types';
+import { failure, respond } from './query';
+import {
+  databaseError,
+  deleteMessageFiles,
+  isMember,
+  now,
+  withDefaults,
+  type DemoContext
+} from './schema';
+
+type Functions = Database['public']['Functions'];
+type FunctionName = keyof Functions;
+
+type SignedInContext = DemoContext & { userId: string };
+
+type DemoFunction<F extends FunctionName> = (
+  args: Functions[F]['Args'],
+  context: SignedInContext
+) => Functions[F]['Returns'];
+
+const requirePassword = (password: string) => {
+  if (password.trim() === '') {
+    throw databaseError('Room password is required', '22023');
+  }
+};
+
+const findRoom = ({ store }: DemoContext, roomId: string) => {
+  const room = store.find('rooms', { id: roomId });
+  if (!room) throw databaseError('Room not found', 'P0002');
+  return room;
+};
+
+const addMember = ({ store }: DemoContext, roomId: string, userId: string, role = 'member') => {
+  if (!store.find('room_users', { room_id: roomId, user_id: userId })) {
+    store.insert(
+      'room_users',
+      withDefaults('room_users', { room_id: roomId, user_id: userId, role })
+    );
+  }
+};
+
+const isBanned = ({ store }: DemoContext, roomId: string, userId: string) => {
+  const ban = store.find('room_bans', { room_id: roomId, user_id: userId });
+  return ban !== null && (ban.expires_at === null || (ban.expires_at as string) > now());
+};
+
+// Ports of the database functions the demo supports. Room passwords are
+// kept in plain text: demo data never leaves the browser.
+const FUNCTIONS: { [F in FunctionName]?: DemoFunction<F> } = {
+  create_room: ({ p_name, p_password, p_max_users }, context) => {
+    const { store, userId } = context;
+    requirePassword(p_password);
+    if (p_name.startsWith('dm:')) {
+      throw databaseError(
+        'new row for relation "rooms" violates check constraint "rooms_direct_name_check"',
+        '23514'
+      );
+    }
+    if (store.rows('rooms').some((room) => room.name === p_name)) {
+      throw databaseError(
+        'duplicate key value violates unique constraint "rooms_name_key"',
+        '23505'
+      );
+    }
+
+    const room = store.insert(
+      'rooms',
+      withDefaults('rooms', { name: p_name, max_users: p_max_users, owner_id: userId })
+    );
+    store.insert('room_passwords', { room_id: room.id, password_hash: p_password });
+    addMember(context, room.id as string, userId, 'owner');
+    return room.id as string;
+  },
+
+  join_room: ({ p_room_id, p_password }, context) => {
+    const { store, userId } = context;
+    const room = findRoom(context, p_room_id);
+    if (room.kind !== 'group') throw databaseError('Room not found', 'P0002');
+    if (isBanned(context, p_room_id, userId)) {
+      throw databaseError('You are banned from this room', '42501');
+    }
+    if (store.find('room_passwords', { room_id: p_room_id })?.password_hash !== p_password) {
+      throw databaseError('Incorrect password', '28P01');
+    }
+    if (isMember(context, p_room_id)) return undefined;
+
+    const members = store.rows('room_users').filter((member) => member.room_id === p_room_id);
+    if (members.length >= (room.max_users as number)) {
+      throw databaseError('Room is full. Please try another room.', '53300');
+    }
+    addMember(context, p_room_id, userId);
+    return undefined;
+  },
+
+  set_room_password: ({ p_room_id, p_password }, context) => {
+    requirePassword(p_password);
+    if (findRoom(context, p_room_id).owner_id !== context.userId) {
+      throw databaseError('Only the room owner can change the password', '42501');
+    }
+    const { store } = context;
+    const current = store.find('room_passwords', { room_id: p_room_id });
+    if (current) {
+      store.update('room_passwords', current, { password_hash: p_password });
+    } else {
+      store.insert('room_passwords', { room_id: p_room_id, password_hash: p_password });
+    }
+    return undefined;
+  },
+
+  delete_room: ({ p_room_id }, context) => {
+    const { store } = context;
+    const room = findRoom(context, p_room_id);
+    if (room.owner_id !== context.userId) {
+      throw databaseError('Only the room owner can delete the room', '42501');
+    }
+
+    const messages = store.rows('messages').filter((message) => message.room_id === p_room_id);
+    const messageIds = new Set(messages.map((message) => message.id));
+    store
+      .rows('message_reactions')
+      .filter((reaction) => messageIds.has(reaction.message_id))
+      .forEach((reaction) => store.delete('message_reactions', reaction));
+    messages.forEach((message) => {
+      deleteMessageFiles(context, message);
+      store.delete('messages', message);
+    });
+    ['room_users', 'room_bans', 'room_invites', 'room_passwords'].forEach((table) =>
+      store
+        .rows(table)
+        .filter((row) => row.room_id === p_room_id)
+        .forEach((row) => store.delete(table, row))
+    );
+    store.delete('rooms', room);
+    return undefined;
+  },
+
+  start_direct_conversation: ({ p_user_id }, context) => {
+    const { store, userId } = context;
+    if (p_user_id === userId) throw databaseError('You cannot message yourself', '22023');
+    if (!store.find('profiles', { id: p_user_id })) throw databaseError('User not found', 'P0002');
+
+    // One conversation per pair, keyed on the sorted user ids
+    const name = `dm:${[userId, p_user_id].sort().join(':')}`;
+    const room =
+      store.rows('rooms').find((candidate) => candidate.name === name) ??
+      store.insert(
+        'rooms',
+        withDefaults('rooms', { name, kind: 'direct', max_users: 2, owner_id: userId })
+      );
+
+    // Re-add either participant if they left the conversation earlier
+    addMember(context, room.id as string, userId);
+    addMember(context, room.id as string, p_user_id);
+    return room.id as string;
+  },
+
+  get_unread_counts: (_args, { store, userId }) =>
+    store
+      .rows('room_users')
+      .filter((member) => member.user_id === userId)
+      .map((member) => {
+        const unread = store
+          .rows('messages')
+          .filter(
+            (message) =>
+              message.room_id === member.room_id &&
+              (message.created_at as string) > (member.last_read_at as string) &&
+              message.user_id !== userId &&
+              message.deleted_at === null
+          );
+        return {
+          room_id: member.room_id as string,
+          unread_count: unread.length,
+          mention_count: unread.filter((message) =>
+            (message.mentions as string[]).includes(userId)
+          ).length
+        };
+      }),
+
+  mark_room_read: ({ p_room_id, p_read_at }, { store, userId }) => {
+    const member = store.find('room_users', { room_id: p_room_id, user_id: userId });
+    const readAt = new Date(Math.min(Date.parse(p_read_at), Date.now())).toISOString();
+    if (member && readAt > (member.last_read_at as string)) {
+      store.update('room_users', member, { last_read_at: readAt });
+    }
+    return undefined;
+  },
+
+  set_notification_level: ({ p_room_id, p_level }, { store, userId }) => {
+    if (!['all', 'mentions', 'muted'].includes(p_level)) {
+      throw databaseError('Invalid notification level', '22023');
+    }
+    const member = store.find('room_users', { room_id: p_room_id, user_id: userId });
+    if (!member) throw databaseError('You are not a member of this room', 'P0002');
+
+    store.update('room_users', member, { notification_level: p_level });
+    return undefined;
+  }
+};
+
+/**
+ * Runs a database function against the demo store. Functions the demo does
+ * not implement, such as bans, invites and recovery codes, fail with a
+ * message saying so.
+ */
+export const callFunction = async (name: string, args: object, context: DemoContext) => {
+  await context.store.ready;
+
+  const implementation = FUNCTIONS[name as FunctionName] as
+    | ((args: object, context: SignedInContext) => unknown)
+    | undefined;
+  try {
+    if (context.userId === null) throw databaseError('Not authenticated', '28000');
+    // No code, so the app shows the message as it is
+    if (!implementation) throw databaseError('This is not available in demo mode', '');
+    return respond(implementation(args, { ...context, userId: context.userId }) ?? null);
+  } catch (error) {
+    return failure(error);
+  }
+};
@@ -0,0 +1,451 @@
+import {
+  afterUpdate,
+  beforeInsert,
+  beforeUpdate,
+  canDelete,
+  canInsert,
+  canRead,
+  canWrite,
+  databaseError,
+  withDefaults,
+  type DemoContext
+} from './schema';
+import { primaryKey, type Row } from './store';
+
+export interface DemoResponse {
+  data: unknown;
+  error: ReturnType<typeof databaseError> | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+export const respond = (data: unknown, count: number | null = null): DemoResponse => ({
+  data,
+  error: null,
+  count,
+  status: 200,
+  statusText: 'OK'
+});
+
+/**
+ * Turns anything a demo query threw into an error response. Database errors
+ * are returned as they are; bugs in the demo itself keep their message.
+ */
+export const failure = (error: unknown): DemoResponse => ({
+  data: null,
+  error:
+    typeof error === 'object' && error !== null && 'code' in error
+      ? (error as ReturnType<typeof databaseError>)
+      : databaseError(error instanceof Error ? error.message : String(error), 'XX000'),
+  count: null,
+  status: 400,
+  statusText: 'Bad Request'
+});
+
+type Filter = (row: Row) => boolean;
+
+// Foreign keys the app embeds in selects, e.g. `rooms(name, kind)`
+const RELATIONS: Record<
+  string,
+  Record<string, { table: string; column: string; references: string; many: boolean }>
+> = {
+  rooms: { room_users: { table: 'room_users', column: 'room_id', references: 'id', many: true } },
+  room_users: { rooms: { table: 'rooms', column: 'id', references: 'room_id', many: false } },
+  messages: { rooms: { table: 'rooms', column: 'id', references: 'room_id', many: false } },
+  message_reactions: {
+    messages: { table: 'messages', column: 'id', references: 'message_id', many: false }
+  }
+};
+
+interface Selection {
+  all: boolean;
+  columns: string[];
+  embeds: { name: string; inner: boolean; selection: Selection }[];
+}
+
+// Splits on commas that are not inside parentheses or double quotes
+const splitTopLevel = (expression: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  [...expression].forEach((char, index) => {
+    if (char === '"') quoted = !quoted;
+    if (quoted) return;
+    if (char === '(') depth += 1;
+    if (char === ')') depth -= 1;
+    if (char === ',' && depth === 0) {
+      parts.push(expression.slice(start, index).trim());
+      start = index + 1;
+    }
+  });
+  parts.push(expression.slice(start).trim());
+
+  return parts.filter(Boolean);
+};
+
+const parseSelect = (columns: string): Selection => {
+  const selection: Selection = { all: false, columns: [], embeds: [] };
+
+  splitTopLevel(columns).forEach((item) => {
+    const embed = /^(\w+)(!inner)?\((.*)\)$/.exec(item);
+    if (embed) {
+      selection.embeds.push({
+        name: embed[1],
+        inner: embed[2] !== undefined,
+        selection: parseSelect(embed[3])
+      });
+    } else if (item === '*') {
+      selection.all = true;
+    } else {
+      selection.columns.push(item);
+    }
+  });
+
+  return selection;
+};
+
+// Adds the embedded rows the selection asks for, respecting their policies
+const embed = (table: string, row: Row, selection: Selection, context: DemoContext): Row => {
+  const embedded: Row = { ...row };
+
+  selection.embeds.forEach(({ name, selection: nested }) => {
+    const relation = RELATIONS[table]?.[name];
+    if (!relation) {
+      throw databaseError(
+        `Could not find a relationship between '${table}' and '${name}' in the schema cache`,
+        'PGRST200'
+      );
+    }
+
+    const related = context.store
+      .rows(relation.table)
+      .filter(
+        (candidate) =>
+          candidate[relation.column] === row[relation.references] &&
+          canRead(relation.table, candidate, context)
+      )
+      .map((candidate) => embed(relation.table, candidate, nested, context));
+    embedded[name] = relation.many ? related : (related[0] ?? null);
+  });
+
+  return embedded;
+};
+
+const project = (row: Row, selection: Selection): Row => {
+  const projected: Row = selection.all ? { ...row } : {};
+
+  selection.columns.forEach((column) => {
+    projected[column] = row[column];
+  });
+  selection.embeds.forEach(({ name, selection: nested }) => {
+    const value = row[name] as Row | Row[] | null;
+    projected[name] = Array.isArray(value)
+      ? value.map((item) => project(item, nested))
+      : value && project(value, nested);
+  });
+
+  return projected;
+};
+
+// Filters on embedded tables name their column as `messages.room_id`
+const valueAt = (row: Row, column: string) =>
+  column
+    .split('.')
+    .reduce<unknown>((value, key) => (value as Row | null | undefined)?.[key], row);
+
+// Values in filter strings are text; compare them as the column's type
+const coerce = (actual: unknown, expected: unknown) => {
+  if (typeof expected !== 'string') return expected;
+  if (typeof actual === 'number') return Number(expected);
+  if (typeof actual === 'boolean') return expected === 'true';
+  return expected;
+};
+
+const test = (actual: unknown, operator: string, expected: unknown) => {
+  if (operator === 'is') return actual === expected;
+  if (actual === null || actual === undefined) return false;
+
+  const value = coerce(actual, expected);
+  switch (operator) {
+    case 'eq':
+      return actual === value;
+    case 'neq':
+      return actual !== value;
+    case 'lt':
+      return (actual as string) < (value as string);
+    case 'lte':
+      return (actual as string) <= (value as string);
+    case 'gt':
+      return (actual as string) > (value as string);
+    case 'gte':
+      return (actual as string) >= (value as string);
+    case 'in':
+      return (value as unknown[]).includes(actual);
+    case 'cs':
+      return (value as unknown[]).every((item) => (actual as unknown[]).includes(item));
+    default:
+      throw databaseError(`Unsupported operator "${operator}"`, 'PGRST100');
+  }
+};
+
+export const condition =
+  (column: string, operator: string, expected: unknown): Filter =>
+  (row) =>
+    test(valueAt(row, column), operator, expected);
+
+const parseValue = (raw: string) => {
+  if (raw === 'null') return null;
+  return raw.startsWith('"') && raw.endsWith('"') ? raw.slice(1, -1) : raw;
+};
+
+/**
+ * Parses one condition of a PostgREST logic tree, such as
+ * `expires_at.is.null` or `and(created_at.eq."…",id.lt.…)`.
+ */
+export const parseCondition = (expression: string): Filter => {
+  const logic = /^(and|or)\((.*)\)$/.exec(expression);
+  if (logic) {
+    const parts = splitTopLevel(logic[2]).map(parseCondition);
+    return logic[1] === 'and'
+      ? (row) => parts.every((part) => part(row))
+      : (row) => parts.some((part) => part(row));
+  }
+
+  const match = /^([\w.]+?)\.(\w+)\.(.*)$/.exec(expression);
+  if (!match) throw databaseError(`Failed to parse filter "${expression}"`, 'PGRST100');
+  return condition(match[1], match[2], parseValue(match[3]));
+};
+
+const compareValues = (a: unknown, b: unknown) => {
+  if (a === b) return 0;
+  // Postgres sorts nulls after everything else in ascending order
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as string) < (b as string) ? -1 : 1;
+};
+
+type Action = 'select' | 'insert' | 'upsert' | 'update' | 'delete';
+
+/**
+ * A query against the demo store with the parts of the PostgREST builder's
+ * interface that the repository uses. Like the real builder it runs when
+ * awaited and resolves with `{ data, error }` instead of rejecting.
+ *
+ * Filters on embedded columns drop the parent row, which matches PostgREST
+ * for `!inner` embeds, the only kind the app filters on.
+ */
+export class DemoQuery implements PromiseLike<DemoResponse> {
+  private action: Action = 'select';
+  private selection = parseSelect('*');
+  private returning = false;
+  private values: Row[] = [];
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private maxRows: number | null = null;
+  private cardinality: 'many' | 'one' | 'maybe' = 'many';
+  private counting = false;
+  private head = false;
+
+  constructor(
+    private table: string,
+    private context: DemoContext
+  ) {}
+
+  select(columns = '*', options: { count?: 'exact'; head?: boolean } = {}) {
+    this.selection = parseSelect(columns);
+    this.returning = true;
+    this.counting = options.count !== undefined;
+    this.head = options.head ?? false;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[]) {
+    this.insert(values);
+    this.action = 'upsert';
+    return this;
+  }
+
+  update(values: Row) {
+    this.action = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(condition(column, 'eq', value));
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push(condition(column, 'is', value));
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(condition(column, 'in', values));
+    return this;
+  }
+
+  contains(column: string, values: unknown[]) {
+    this.filters.push(condition(column, 'cs', values));
+    return this;
+  }
+
+  or(expression: string) {
+    this.filters.push(parseCondition(`or(${expression})`));
+    return this;
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending });
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+    return this;
+  }
+
+  single() {
+    this.cardinality = 'one';
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybe';
+    return this;
+  }
+
+  then<TResult1 = DemoResponse, TResult2 = never>(
+    onfulfilled?: ((value: DemoResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ) {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private async execute() {
+    await this.context.store.ready;
+    try {
+      return this.run();
+    } catch (error) {
+      return failure(error);
+    }
+  }
+
+  private run() {
+    switch (this.action) {
+      case 'select':
+        return this.result(this.matching(canRead));
+      case 'insert':
+      case 'upsert':
+        return this.result(this.values.map((values) => this.insertRow(values)));
+      case 'update':
+        return this.result(
+          this.matching(canWrite).map((row) => this.updateRow(row, this.values[0]))
+        );
+      case 'delete':
+        return this.result(
+          this.matching(canDelete).map((row) => {
+            this.context.store.delete(this.table, row);
+            return row;
+          })
+        );
+    }
+  }
+
+  // Rows the policy lets the user see that pass the filters, in order
+  private matching(policy: typeof canRead) {
+    const inner = this.selection.embeds.filter((item) => item.inner).map((item) => item.name);
+
+    const rows = this.context.store
+      .rows(this.table)
+      .filter((row) => policy(this.table, row, this.context))
+      .map((row) => embed(this.table, row, this.selection, this.context))
+      .filter((row) => this.filters.every((filter) => filter(row)))
+      .filter((row) => inner.every((name) => row[name] !== null));
+
+    rows.sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const order = compareValues(a[column], b[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+
+    return this.maxRows === null ? rows : rows.slice(0, this.maxRows);
+  }
+
+  private insertRow(values: Row) {
+    const { store } = this.context;
+    const existing = store.find(this.table, values);
+    if (existing && this.action === 'upsert') {
+      if (!canWrite(this.table, existing, this.context)) {
+        throw databaseError(
+          `new row violates row-level security policy for table "${this.table}"`,
+          '42501'
+        );
+      }
+      return this.updateRow(existing, values);
+    }
+
+    const row = beforeInsert(this.table, withDefaults(this.table, values), this.context);
+    if (!canInsert(this.table, row, this.context)) {
+      throw databaseError(
+        `new row violates row-level security policy for table "${this.table}"`,
+        '42501'
+      );
+    }
+    if (existing) {
+      throw databaseError(
+        `duplicate key value violates unique constraint "${this.table}_pkey"`,
+        '23505',
+        `Key (${primaryKey(this.table).join(', ')}) already exists.`
+      );
+    }
+
+    return embed(this.table, store.insert(this.table, row), this.selection, this.context);
+  }
+
+  private updateRow(old: Row, changes: Row) {
+    const { store } = this.context;
+    const stored = store.find(this.table, old) ?? old;
+    const row = beforeUpdate(this.table, stored, { ...stored, ...changes }, this.context);
+
+    store.update(this.table, stored, row);
+    afterUpdate(this.table, stored, row, this.context);
+    return embed(this.table, row, this.selection, this.context);
+  }
+
+  private result(rows: Row[]) {
+    if (this.head) return respond(null, rows.length);
+
+    const count = this.counting ? rows.length : null;
+    if (!this.returning) return respond(null, count);
+
+    const data = rows.map((row) => project(row, this.selection));
+    if (this.cardinality === 'many') return respond(data, count);
+
+    if (data.length > 1 || (data.length === 0 && this.cardinality === 'one')) {
+      throw databaseError(
+        'JSON object requested, multiple (or no) rows returned',
+        'PGRST116',
+        `The result contains ${data.length} rows`
+      );
+    }
+    return respond(data[0] ?? null, count);
+  }
+}
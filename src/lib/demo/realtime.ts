@@ -0,0 +1,276 @@
+import { parseCondition } from './query';
+import { canRead, now, type DemoContext } from './schema';
+import type { Change, ChangeEvent, DemoStore, Row } from './store';
+
+type PresenceState = Record<string, unknown>;
+
+interface PresenceEntry {
+  key: string;
+  state: PresenceState;
+}
+
+type RealtimeMessage =
+  | { kind: 'broadcast'; topic: string; event: string; payload: unknown }
+  | { kind: 'track'; topic: string; ref: string; entry: PresenceEntry }
+  | { kind: 'untrack'; topic: string; ref: string }
+  // A tab that opened a channel asks the others who is present
+  | { kind: 'sync'; topic: string };
+
+type Callback = (payload: never) => void;
+
+interface ChangeBinding {
+  event: ChangeEvent | '*';
+  table: string;
+  matches: (row: Row) => boolean;
+  callback: Callback;
+}
+
+interface Binding {
+  event: string;
+  callback: Callback;
+}
+
+const emit = (callback: Callback, payload: unknown) =>
+  (callback as (payload: unknown) => void)(payload);
+
+/**
+ * Realtime channels between the tabs of this browser. Database changes come
+ * from the store, which already hears about other tabs' writes; presence and
+ * broadcast messages travel over their own BroadcastChannel.
+ */
+class DemoRealtime {
+  private channels = new Set<DemoChannel>();
+  // Presences of every topic, keyed by the connection that tracked them
+  private presences = new Map<string, Map<string, PresenceEntry>>();
+  private bus = new BroadcastChannel('ding-demo-realtime');
+
+  constructor(
+    store: DemoStore,
+    private context: () => DemoContext
+  ) {
+    store.subscribe((change) => {
+      // Realtime events arrive after the write has returned
+      queueMicrotask(() => {
+        const context = this.context();
+        this.channels.forEach((channel) => channel.receiveChange(change, context));
+      });
+    });
+
+    this.bus.onmessage = ({ data }: MessageEvent<RealtimeMessage>) => {
+      switch (data.kind) {
+        case 'broadcast':
+          this.deliver(data.topic, data.event, data.payload);
+          break;
+        case 'track':
+          this.setPresence(data.topic, data.ref, data.entry);
+          break;
+        case 'untrack':
+          this.setPresence(data.topic, data.ref, null);
+          break;
+        case 'sync':
+          this.channels.forEach((channel) => {
+            if (channel.topic === data.topic) channel.announce();
+          });
+          break;
+      }
+    };
+
+    // Closing a tab ends its connections
+    window.addEventListener('pagehide', () => {
+      this.channels.forEach((channel) => channel.untrack());
+    });
+  }
+
+  channel(topic: string, options: { config?: { presence?: { key?: string } } } = {}) {
+    return new DemoChannel(this, topic, options.config?.presence?.key ?? crypto.randomUUID());
+  }
+
+  post(message: RealtimeMessage) {
+    this.bus.postMessage(message);
+  }
+
+  join(channel: DemoChannel) {
+    this.channels.add(channel);
+    this.post({ kind: 'sync', topic: channel.topic });
+  }
+
+  leave(channel: DemoChannel) {
+    this.channels.delete(channel);
+  }
+
+  deliver(topic: string, event: string, payload: unknown, sender?: DemoChannel) {
+    this.channels.forEach((channel) => {
+      if (channel.topic === topic && channel !== sender) channel.receiveBroadcast(event, payload);
+    });
+  }
+
+  setPresence(topic: string, ref: string, entry: PresenceEntry | null) {
+    let entries = this.presences.get(topic);
+    if (!entries) {
+      entries = new Map();
+      this.presences.set(topic, entries);
+    }
+
+    const previous = entries.get(ref);
+    if (entry) {
+      entries.set(ref, entry);
+    } else if (previous) {
+      entries.delete(ref);
+    } else {
+      return;
+    }
+
+    this.channels.forEach((channel) => {
+      if (channel.topic !== topic) return;
+      if (entry) {
+        channel.receivePresence('join', entry.key, { ...entry.state, presence_ref: ref });
+      } else if (previous) {
+        channel.receivePresence('leave', previous.key, { ...previous.state, presence_ref: ref });
+      }
+    });
+  }
+
+  presenceState(topic: string) {
+    const state: Record<string, PresenceState[]> = {};
+    this.presences.get(topic)?.forEach(({ key, state: presence }, ref) => {
+      (state[key] ??= []).push({ ...presence, presence_ref: ref });
+    });
+    return state;
+  }
+}
+
+/**
+ * One realtime channel, with the parts of supabase-js's `RealtimeChannel`
+ * that the app uses.
+ */
+class DemoChannel {
+  private changeBindings: ChangeBinding[] = [];
+  private presenceBindings: Binding[] = [];
+  private broadcastBindings: Binding[] = [];
+  // Identifies this connection's presence, like a socket would
+  private ref = crypto.randomUUID();
+  private tracked: PresenceState | null = null;
+
+  constructor(
+    private realtime: DemoRealtime,
+    readonly topic: string,
+    private presenceKey: string
+  ) {}
+
+  on(
+    type: 'postgres_changes' | 'presence' | 'broadcast',
+    filter: { event: string; table?: string; filter?: string },
+    callback: Callback
+  ) {
+    if (type === 'postgres_changes') {
+      // Realtime filters are written `room_id=eq.<id>`
+      const matches = filter.filter ? parseCondition(filter.filter.replace('=', '.')) : () => true;
+      this.changeBindings.push({
+        event: filter.event as ChangeEvent | '*',
+        table: filter.table ?? '',
+        matches,
+        callback
+      });
+    } else if (type === 'presence') {
+      this.presenceBindings.push({ event: filter.event, callback });
+    } else {
+      this.broadcastBindings.push({ event: filter.event, callback });
+    }
+    return this;
+  }
+
+  subscribe(callback?: (status: 'SUBSCRIBED') => void) {
+    this.realtime.join(this);
+    queueMicrotask(() => {
+      callback?.('SUBSCRIBED');
+      this.receivePresence('sync');
+    });
+    return this;
+  }
+
+  async unsubscribe() {
+    this.realtime.leave(this);
+    await this.untrack();
+    return 'ok' as const;
+  }
+
+  async send({ event, payload }: { type: 'broadcast'; event: string; payload: unknown }) {
+    this.realtime.deliver(this.topic, event, payload, this);
+    this.realtime.post({ kind: 'broadcast', topic: this.topic, event, payload });
+    return 'ok' as const;
+  }
+
+  async track(state: PresenceState) {
+    this.tracked = state;
+    this.announce();
+    return 'ok' as const;
+  }
+
+  async untrack() {
+    if (!this.tracked) return 'ok' as const;
+
+    this.tracked = null;
+    this.realtime.setPresence(this.topic, this.ref, null);
+    this.realtime.post({ kind: 'untrack', topic: this.topic, ref: this.ref });
+    return 'ok' as const;
+  }
+
+  presenceState() {
+    return this.realtime.presenceState(this.topic);
+  }
+
+  announce() {
+    if (!this.tracked) return;
+
+    const entry = { key: this.presenceKey, state: this.tracked };
+    this.realtime.setPresence(this.topic, this.ref, entry);
+    this.realtime.post({ kind: 'track', topic: this.topic, ref: this.ref, entry });
+  }
+
+  receiveChange(change: Change, context: DemoContext) {
+    const row = change.eventType === 'DELETE' ? change.old : change.new;
+    // Events respect the subscriber's row-level security, except deletes,
+    // whose row can no longer be checked
+    if (change.eventType !== 'DELETE' && !canRead(change.table, row, context)) return;
+
+    this.changeBindings.forEach(({ event, table, matches, callback }) => {
+      if (table !== change.table || (event !== '*' && event !== change.eventType)) return;
+      if (!matches(row)) return;
+
+      emit(callback, {
+        schema: 'public',
+        table: change.table,
+        commit_timestamp: now(),
+        eventType: change.eventType,
+        new: change.new,
+        old: change.old,
+        errors: null
+      });
+    });
+  }
+
+  receiveBroadcast(event: string, payload: unknown) {
+    this.broadcastBindings.forEach((binding) => {
+      if (binding.event === event) emit(binding.callback, { type: 'broadcast', event, payload });
+    });
+  }
+
+  receivePresence(event: 'sync' | 'join' | 'leave', key?: string, presence?: PresenceState) {
+    this.presenceBindings.forEach((binding) => {
+      if (binding.event === 'sync' || binding.event !== event) return;
+      emit(binding.callback, {
+        event,
+        key,
+        currentPresences: this.presenceState()[key ?? ''] ?? [],
+        [event === 'join' ? 'newPresences' : 'leftPresences']: [presence]
+      });
+    });
+    // Every change to the state is followed by a sync
+    this.presenceBindings.forEach((binding) => {
+      if (binding.event === 'sync') emit(binding.callback, undefined);
+    });
+  }
+}
+
+export const createDemoRealtime = (store: DemoStore, context: () => DemoContext) =>
+  new DemoRealtime(store, context);
@@ -0,0 +1,242 @@
+import type { Database, Tables } from '../database.types';
+import type { DemoStore, Row } from './store';
+
+type TableName = keyof Database['public']['Tables'];
+
+// Storage bucket for message files, as created by the migrations
+export const ATTACHMENTS_BUCKET = 'message-files';
+
+/**
+ * Who a demo query runs as, standing in for `auth.uid()`.
+ */
+export interface DemoContext {
+  store: DemoStore;
+  userId: string | null;
+}
+
+/**
+ * An error shaped like the ones PostgREST returns, so the app maps it the
+ * same way as a real server error.
+ */
+export const databaseError = (message: string, code: string, details = '') => ({
+  message,
+  code,
+  details,
+  hint: ''
+});
+
+export const now = () => new Date().toISOString();
+
+// Column defaults from the migrations, for the tables the demo writes to
+const DEFAULTS: { [T in TableName]?: () => Partial<Tables<T>> } = {
+  messages: () => ({
+    id: crypto.randomUUID(),
+    created_at: now(),
+    message_type: 'text',
+    mentions: [],
+    edited_at: null,
+    deleted_at: null,
+    image_url: null,
+    file_path: null,
+    file_name: null,
+    file_size: null,
+    file_mime: null,
+    thumbnail_path: null,
+    image_width: null,
+    image_height: null,
+    blur_placeholder: null
+  }),
+  message_reactions: () => ({ created_at: now() }),
+  profiles: () => ({ avatar_url: null, bio: '', created_at: now(), updated_at: now() }),
+  rooms: () => ({
+    id: crypto.randomUUID(),
+    created_at: now(),
+    kind: 'group',
+    max_users: 10,
+    require_mfa: false
+  }),
+  room_users: () => ({
+    joined_at: now(),
+    last_read_at: now(),
+    role: 'member',
+    notification_level: 'all'
+  }),
+  user_settings: () => ({
+    sound_enabled: true,
+    dnd_enabled: false,
+    dnd_start: '22:00:00',
+    dnd_end: '08:00:00',
+    updated_at: now()
+  })
+};
+
+export const withDefaults = (table: string, values: Row): Row => ({
+  ...DEFAULTS[table as TableName]?.(),
+  ...values
+});
+
+export const isMember = ({ store, userId }: DemoContext, roomId: unknown) =>
+  store.find('room_users', { room_id: roomId, user_id: userId }) !== null;
+
+const visibleMessage = (context: DemoContext, messageId: unknown) => {
+  const message = context.store.find('messages', { id: messageId });
+  return message !== null && isMember(context, message.room_id);
+};
+
+type Policy = (row: Row, context: DemoContext) => boolean;
+
+// Row-level security for reads. Tables without a policy, such as
+// room_passwords, cannot be read at all.
+const READ_POLICIES: Record<string, Policy> = {
+  rooms: (room, context) => room.kind === 'group' || isMember(context, room.id),
+  room_users: (member, context) => isMember(context, member.room_id),
+  messages: (message, context) => isMember(context, message.room_id),
+  message_reactions: (reaction, context) => visibleMessage(context, reaction.message_id),
+  room_bans: (ban, context) => isMember(context, ban.room_id),
+  room_invites: (invite, context) => isMember(context, invite.room_id),
+  profiles: () => true,
+  user_settings: (settings, { userId }) => settings.user_id === userId
+};
+
+// Row-level security for inserts. Rooms and memberships have no insert
+// policy: they are only created by functions such as create_room and
+// join_room, which check passwords, bans and room limits.
+const INSERT_POLICIES: Record<string, Policy> = {
+  messages: (message, context) =>
+    message.user_id === context.userId &&
+    isMember(context, message.room_id) &&
+    message.image_url === null,
+  message_reactions: (reaction, context) =>
+    reaction.user_id === context.userId && visibleMessage(context, reaction.message_id),
+  user_settings: (settings, { userId }) => settings.user_id === userId
+};
+
+// Row-level security for updates. Everything else goes through database
+// functions.
+const WRITE_POLICIES: Record<string, Policy> = {
+  rooms: (room, { userId }) => room.owner_id === userId && room.kind === 'group',
+  room_users: (member, { userId }) => member.user_id === userId,
+  // Room owners may delete other people's messages; the trigger below stops
+  // them from editing them
+  messages: (message, context) =>
+    isMember(context, message.room_id) &&
+    (message.user_id === context.userId ||
+      context.store.find('rooms', { id: message.room_id })?.owner_id === context.userId),
+  message_reactions: (reaction, context) =>
+    reaction.user_id === context.userId && visibleMessage(context, reaction.message_id),
+  profiles: (profile, { userId }) => profile.id === userId,
+  user_settings: (settings, { userId }) => settings.user_id === userId
+};
+
+// Row-level security for deletes. Rooms are only deleted by delete_room.
+const DELETE_POLICIES: Record<string, Policy> = {
+  room_users: WRITE_POLICIES.room_users,
+  messages: WRITE_POLICIES.messages,
+  message_reactions: WRITE_POLICIES.message_reactions
+};
+
+export const canRead = (table: string, row: Row, context: DemoContext) =>
+  context.userId !== null && (READ_POLICIES[table]?.(row, context) ?? false);
+
+export const canInsert = (table: string, row: Row, context: DemoContext) =>
+  context.userId !== null && (INSERT_POLICIES[table]?.(row, context) ?? false);
+
+export const canDelete = (table: string, row: Row, context: DemoContext) =>
+  context.userId !== null && (DELETE_POLICIES[table]?.(row, context) ?? false);
+
+export const canWrite = (table: string, row: Row, context: DemoContext) =>
+  context.userId !== null && (WRITE_POLICIES[table]?.(row, context) ?? false);
+
+const ATTACHMENT_COLUMNS = [
+  'file_path',
+  'file_name',
+  'file_size',
+  'file_mime',
+  'thumbnail_path',
+  'image_width',
+  'image_height',
+  'blur_placeholder'
+];
+
+// Mentions of people outside the room are dropped
+const filterMentions = (message: Row, { store }: DemoContext) => ({
+  ...message,
+  mentions: [...new Set(message.mentions as string[])].filter(
+    (userId) => store.find('room_users', { room_id: message.room_id, user_id: userId }) !== null
+  )
+});
+
+const guardMessageUpdate = (old: Row, message: Row, context: DemoContext): Row => {
+  const fixedColumns = ['user_id', 'room_id', 'created_at', 'message_type'];
+  if (fixedColumns.some((column) => message[column] !== old[column])) {
+    throw databaseError('Only the content of a message can be changed', '42501');
+  }
+  if (old.deleted_at !== null) {
+    throw databaseError('Deleted messages cannot be changed', '42501');
+  }
+
+  if (message.deleted_at !== null) {
+    return {
+      ...message,
+      ...Object.fromEntries(ATTACHMENT_COLUMNS.map((column) => [column, null])),
+      deleted_at: now(),
+      content: '',
+      mentions: [],
+      image_url: null
+    };
+  }
+
+  if (ATTACHMENT_COLUMNS.some((column) => message[column] !== old[column])) {
+    throw databaseError('Attachments cannot be changed', '42501');
+  }
+
+  const edited =
+    message.content !== old.content ||
+    message.image_url !== old.image_url ||
+    JSON.stringify(message.mentions) !== JSON.stringify(old.mentions);
+  if (!edited) return { ...message, edited_at: old.edited_at };
+
+  // Room owners may only delete other people's messages, not rewrite them
+  if (context.userId !== old.user_id) {
+    throw databaseError('Only the author can edit a message', '42501');
+  }
+  if (String(message.content).trim() === '') {
+    throw databaseError('Message cannot be empty', '22023');
+  }
+
+  return { ...filterMentions(message, context), edited_at: now() };
+};
+
+/**
+ * Removes a message's files. The real database queues them for the
+ * `storage-cleanup` function, which the demo does not have.
+ */
+export const deleteMessageFiles = ({ store }: DemoContext, message: Row) => {
+  [message.file_path, message.thumbnail_path].forEach((path) => {
+    if (typeof path === 'string') store.deleteFile(`${ATTACHMENTS_BUCKET}/${path}`);
+  });
+};
+
+// BEFORE INSERT triggers
+export const beforeInsert = (table: string, row: Row, context: DemoContext) =>
+  table === 'messages' ? filterMentions(row, context) : row;
+
+// BEFORE UPDATE triggers
+export const beforeUpdate = (table: string, old: Row, row: Row, context: DemoContext) => {
+  switch (table) {
+    case 'messages':
+      return guardMessageUpdate(old, row, context);
+    case 'profiles':
+    case 'user_settings':
+      return { ...row, updated_at: now() };
+    default:
+      return row;
+  }
+};
+
+// AFTER UPDATE triggers
+export const afterUpdate = (table: string, old: Row, row: Row, context: DemoContext) => {
+  if (table === 'messages' && old.deleted_at === null && row.deleted_at !== null) {
+    deleteMessageFiles(context, old);
+  }
+};
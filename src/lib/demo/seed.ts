@@ -0,0 +1,66 @@
+import { USERS_TABLE } from './auth';
+import { withDefaults } from './schema';
+import type { DemoStore } from './store';
+
+/**
+ * Password of the seeded accounts, listed in the README.
+ */
+export const DEMO_PASSWORD = 'Demo-password1';
+
+const ADA = '00000000-0000-4000-8000-00000000000a';
+const GRACE = '00000000-0000-4000-8000-00000000000b';
+const GENERAL = '00000000-0000-4000-8000-000000000001';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString();
+
+/**
+ * Fills an empty demo store with two accounts and a room they share. Ids are
+ * fixed so that tabs seeding at the same time write the same rows.
+ */
+export const seedDemoData = (store: DemoStore) => {
+  [
+    { id: ADA, email: 'ada@example.com', display_name: 'Ada' },
+    { id: GRACE, email: 'grace@example.com', display_name: 'Grace' }
+  ].forEach(({ id, email, display_name }) => {
+    store.insert(USERS_TABLE, {
+      id,
+      email,
+      password: DEMO_PASSWORD,
+      created_at: minutesAgo(60)
+    });
+    store.insert('profiles', withDefaults('profiles', { id, display_name }));
+  });
+
+  store.insert(
+    'rooms',
+    withDefaults('rooms', {
+      id: GENERAL,
+      name: 'General',
+      owner_id: ADA,
+      created_at: minutesAgo(60)
+    })
+  );
+  store.insert('room_passwords', { room_id: GENERAL, password_hash: 'general' });
+  store.insert(
+    'room_users',
+    withDefaults('room_users', { room_id: GENERAL, user_id: ADA, role: 'owner' })
+  );
+  store.insert('room_users', withDefaults('room_users', { room_id: GENERAL, user_id: GRACE }));
+
+  [
+    {
+      id: '00000000-0000-4000-8000-000000000101',
+      user_id: ADA,
+      content: 'Welcome to the Ding demo! Everything here is stored in this browser.',
+      created_at: minutesAgo(10)
+    },
+    {
+      id: '00000000-0000-4000-8000-000000000102',
+      user_id: GRACE,
+      content: 'Sign in as the other account in a second tab to chat with yourself.',
+      created_at: minutesAgo(9)
+    }
+  ].forEach((message) =>
+    store.insert('messages', withDefaults('messages', { ...message, room_id: GENERAL }))
+  );
+};
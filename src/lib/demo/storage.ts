@@ -0,0 +1,57 @@
+import type { DemoStore } from './store';
+
+// Buckets whose files are served from a public URL
+const PUBLIC_BUCKETS = new Set(['avatars']);
+
+const readAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Storage buckets kept in the demo store. Signed URLs are object URLs for
+ * this page. Public URLs have to outlive the page because they are saved in
+ * profiles, so they are data URLs instead.
+ */
+export const createDemoStorage = (store: DemoStore) => {
+  const publicUrls = new Map<string, string>();
+  const signedUrls = new Map<string, string>();
+
+  return {
+    from: (bucket: string) => ({
+      async upload(path: string, file: Blob) {
+        await store.ready;
+        const fullPath = `${bucket}/${path}`;
+        await store.putFile(fullPath, file);
+        if (PUBLIC_BUCKETS.has(bucket)) {
+          publicUrls.set(fullPath, await readAsDataUrl(file));
+        }
+
+        return { data: { id: fullPath, path, fullPath }, error: null };
+      },
+
+      async createSignedUrl(path: string) {
+        await store.ready;
+        const fullPath = `${bucket}/${path}`;
+        const cached = signedUrls.get(fullPath);
+        if (cached) return { data: { signedUrl: cached }, error: null };
+
+        const file = await store.getFile(fullPath);
+        if (!file) return { data: null, error: new Error('Object not found') };
+
+        const signedUrl = URL.createObjectURL(file);
+        signedUrls.set(fullPath, signedUrl);
+        return { data: { signedUrl }, error: null };
+      },
+
+      // Only files uploaded from this page have a URL, which is how the app
+      // uses it: right after uploading an avatar
+      getPublicUrl: (path: string) => ({
+        data: { publicUrl: publicUrls.get(`${bucket}/${path}`) ?? '' }
+      })
+    })
+  };
+};
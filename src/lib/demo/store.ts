@@ -0,0 +1,198 @@
+export type Row = Record<string, unknown>;
+
+export type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface Change {
+  table: string;
+  eventType: ChangeEvent;
+  new: Row;
+  old: Row;
+}
+
+type ChangeListener = (change: Change) => void;
+
+// Tables not listed here are keyed by `id`
+const PRIMARY_KEYS: Record<string, string[]> = {
+  message_reactions: ['message_id', 'user_id', 'emoji'],
+  room_bans: ['room_id', 'user_id'],
+  room_passwords: ['room_id'],
+  room_users: ['room_id', 'user_id'],
+  user_settings: ['user_id']
+};
+
+export const primaryKey = (table: string) => PRIMARY_KEYS[table] ?? ['id'];
+
+const rowKey = (table: string, row: Row) =>
+  `${table}:${primaryKey(table)
+    .map((column) => String(row[column]))
+    .join(':')}`;
+
+const DATABASE_NAME = 'ding-demo';
+const ROWS = 'rows';
+const FILES = 'files';
+
+interface StoredRow {
+  table: string;
+  row: Row;
+}
+
+const request = <T>(idbRequest: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    idbRequest.onsuccess = () => resolve(idbRequest.result);
+    idbRequest.onerror = () => reject(idbRequest.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const open = indexedDB.open(DATABASE_NAME, 1);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(ROWS);
+      open.result.createObjectStore(FILES);
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+
+/**
+ * The demo backend's tables and files. Rows are kept in memory and written
+ * through to IndexedDB, so every query runs synchronously once `ready` has
+ * resolved. Without IndexedDB (private windows in some browsers, test
+ * runners) the data lives only as long as the page.
+ *
+ * Tabs share the IndexedDB data and announce their writes over a
+ * BroadcastChannel, which keeps each tab's copy current and drives realtime
+ * events in the other tabs.
+ */
+export class DemoStore {
+  readonly ready: Promise<void>;
+
+  private tables = new Map<string, Map<string, Row>>();
+  private memoryFiles = new Map<string, Blob>();
+  private listeners = new Set<ChangeListener>();
+  private database: IDBDatabase | null = null;
+  private sync = new BroadcastChannel(DATABASE_NAME);
+
+  constructor(seed: (store: DemoStore) => void) {
+    this.sync.onmessage = ({ data }: MessageEvent<Change>) => {
+      this.apply(data);
+      this.notify(data);
+    };
+
+    this.ready = this.load().then(() => {
+      if ([...this.tables.values()].every((table) => table.size === 0)) seed(this);
+    });
+  }
+
+  private async load() {
+    try {
+      this.database = await openDatabase();
+    } catch {
+      return;
+    }
+
+    const stored = await request(
+      this.database.transaction(ROWS).objectStore(ROWS).getAll() as IDBRequest<StoredRow[]>
+    );
+    stored.forEach(({ table, row }) => this.table(table).set(rowKey(table, row), row));
+  }
+
+  private table(name: string) {
+    let table = this.tables.get(name);
+    if (!table) {
+      table = new Map();
+      this.tables.set(name, table);
+    }
+    return table;
+  }
+
+  private apply({ table, eventType, new: newRow, old }: Change) {
+    if (eventType === 'DELETE') {
+      this.table(table).delete(rowKey(table, old));
+    } else {
+      this.table(table).set(rowKey(table, newRow), newRow);
+    }
+  }
+
+  private notify(change: Change) {
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  private persist({ table, eventType, new: newRow, old }: Change) {
+    if (!this.database) return;
+
+    const rows = this.database.transaction(ROWS, 'readwrite').objectStore(ROWS);
+    if (eventType === 'DELETE') {
+      rows.delete(rowKey(table, old));
+    } else {
+      rows.put({ table, row: newRow } satisfies StoredRow, rowKey(table, newRow));
+    }
+  }
+
+  private write(change: Change) {
+    this.apply(change);
+    this.persist(change);
+    this.sync.postMessage(change);
+    this.notify(change);
+  }
+
+  rows(table: string) {
+    return [...this.table(table).values()];
+  }
+
+  find(table: string, key: Row) {
+    return this.table(table).get(rowKey(table, key)) ?? null;
+  }
+
+  insert(table: string, row: Row) {
+    this.write({ table, eventType: 'INSERT', new: row, old: {} });
+    return row;
+  }
+
+  update(table: string, old: Row, changes: Row) {
+    const row = { ...old, ...changes };
+    this.write({ table, eventType: 'UPDATE', new: row, old });
+    return row;
+  }
+
+  delete(table: string, row: Row) {
+    this.write({ table, eventType: 'DELETE', new: {}, old: row });
+  }
+
+  /**
+   * Calls `listener` for every write, whether it was made in this tab or
+   * another one.
+   */
+  subscribe(listener: ChangeListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async putFile(path: string, file: Blob) {
+    if (!this.database) {
+      this.memoryFiles.set(path, file);
+      return;
+    }
+
+    await request(
+      this.database.transaction(FILES, 'readwrite').objectStore(FILES).put(file, path)
+    );
+  }
+
+  async getFile(path: string) {
+    if (!this.database) return this.memoryFiles.get(path) ?? null;
+
+    const file = await request(
+      this.database.transaction(FILES).objectStore(FILES).get(path) as IDBRequest<
+        Blob | undefined
+      >
+    );
+    return file ?? null;
+  }
+
+  deleteFile(path: string) {
+    this.memoryFiles.delete(path);
+    this.database?.transaction(FILES, 'readwrite').objectStore(FILES).delete(path);
+  }
+}
@@ -0,0 +1,45 @@
+let context: AudioContext | null = null;
+
+// Browsers keep audio suspended until the page has had a user gesture, so
+// the context is created lazily and resumed on the first interaction
+const getContext = () => {
+  if (!context) {
+    context = new AudioContext();
+  }
+  return context;
+};
+
+export const unlockAudio = () => {
+  const audio = getContext();
+  if (audio.state === 'suspended') {
+    audio.resume();
+  }
+};
+
+/**
+ * Plays the two-note "ding" used for new messages. It is synthesized so the
+ * app does not need to ship an audio file.
+ */
+export const playDing = () => {
+  const audio = getContext();
+  if (audio.state !== 'running') return;
+
+  const start = audio.currentTime;
+  [
+    { frequency: 1318.5, offset: 0 },
+    { frequency: 1760, offset: 0.12 }
+  ].forEach(({ frequency, offset }) => {
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = frequency;
+
+    gain.gain.setValueAtTime(0.0001, start + offset);
+    gain.gain.exponentialRampToValueAtTime(0.25, start + offset + 0.01);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + offset + 0.6);
+
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start(start + offset);
+    oscillator.stop(start + offset + 0.65);
+  });
+};
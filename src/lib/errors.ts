@@ -0,0 +1,107 @@
+import { toast } from 'react-hot-toast';
+
+const DEFAULT_MESSAGE = 'Something went wrong. Please try again.';
+
+const NETWORK_MESSAGE = 'Could not reach the server. Check your connection and try again.';
+
+// Codes our own database functions raise, always with a message written for
+// the user (see the migrations)
+const USER_FACING_CODES = new Set(['P0002', '22023', '28000', '28P01', '42501', '53300', '54000']);
+
+// Errors Postgres and PostgREST raise themselves, whose messages name
+// tables and constraints
+const CODE_MESSAGES: Record<string, string> = {
+  '23503': 'That no longer exists',
+  '23505': 'That already exists',
+  '23514': 'Some of those values are not allowed',
+  '42501': "You don't have permission to do that",
+  PGRST116: 'That no longer exists',
+  PGRST301: 'Your session has expired. Please sign in again.'
+};
+
+const CONSTRAINT_MESSAGES: Record<string, string> = {
+  rooms_name_key: 'A room with that name already exists',
+  rooms_direct_name_check: 'Room names cannot start with "dm:"'
+};
+
+/**
+ * An error from the data layer with a message that can be shown as is.
+ * `code` keeps the Postgres or PostgREST code for callers that handle
+ * specific failures.
+ */
+export class AppError extends Error {
+  code: string | null;
+
+  constructor(message: string, code: string | null = null) {
+    super(message);
+    this.name = 'AppError';
+    this.code = code;
+  }
+}
+
+interface ErrorLike {
+  message: string;
+  code?: string;
+}
+
+const isErrorLike = (error: unknown): error is ErrorLike =>
+  typeof error === 'object' &&
+  error !== null &&
+  typeof (error as ErrorLike).message === 'string';
+
+const isNetworkError = (error: ErrorLike) =>
+  /failed to fetch|network ?error|load failed/i.test(error.message);
+
+const describe = (error: ErrorLike) => {
+  if (isNetworkError(error)) return NETWORK_MESSAGE;
+
+  const code = error.code ?? '';
+  const constraint = Object.keys(CONSTRAINT_MESSAGES).find((name) =>
+    error.message.includes(`"${name}"`)
+  );
+  if (constraint) return CONSTRAINT_MESSAGES[constraint];
+
+  // Row-level security failures share 42501 with our own permission errors
+  if (USER_FACING_CODES.has(code) && !/row-level security/i.test(error.message)) {
+    return error.message;
+  }
+  if (code in CODE_MESSAGES) return CODE_MESSAGES[code];
+
+  // PostgREST errors always carry a code; anything else (auth, storage,
+  // our own checks) already has a readable message
+  return code === '' || !('details' in error) ? error.message : null;
+};
+
+/**
+ * Turns whatever a Supabase call failed with into an `AppError`.
+ * PostgREST hands back plain objects rather than `Error`s, which is why
+ * this takes `unknown`.
+ */
+export const toAppError = (error: unknown, fallback = DEFAULT_MESSAGE) => {
+  if (error instanceof AppError) return error;
+  if (!isErrorLike(error)) return new AppError(fallback);
+
+  return new AppError(describe(error) || fallback, error.code || null);
+};
+
+type ResponseData<R> = Extract<R, { error: null }> extends { data: infer T } ? T : never;
+
+/**
+ * Returns the data of a Supabase response, or throws its error as an
+ * `AppError`.
+ */
+export const unwrap = <R extends { data: unknown; error: object | null }>(result: R) => {
+  if (result.error !== null) throw toAppError(result.error);
+  return result.data as ResponseData<R>;
+};
+
+export const errorMessage = (error: unknown, fallback = DEFAULT_MESSAGE) =>
+  toAppError(error, fallback).message;
+
+/**
+ * Shows a failed action as a toast. Aborted requests are not reported.
+ */
+export const showError = (error: unknown, fallback = DEFAULT_MESSAGE) => {
+  if (error instanceof DOMException && error.name === 'AbortError') return;
+  toast.error(errorMessage(error, fallback));
+};
@@ -0,0 +1,98 @@
+// Longest edge, in px, of images and thumbnails after downscaling
+const MAX_IMAGE_DIMENSION = 2048;
+const THUMBNAIL_DIMENSION = 320;
+const PLACEHOLDER_DIMENSION = 16;
+const IMAGE_QUALITY = 0.85;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Animated GIFs would be flattened to their first frame, and SVGs are not
+// bitmaps, so both are uploaded as they are
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+export interface ProcessedImage {
+  file: File;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  placeholder: string;
+}
+
+export const canProcessImage = (file: File) =>
+  file.type.startsWith('image/') && !PASSTHROUGH_TYPES.includes(file.type);
+
+const scaledSize = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
+
+const drawScaled = (bitmap: ImageBitmap, maxDimension: number) => {
+  const { width, height } = scaledSize(bitmap.width, bitmap.height, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Your browser cannot process images');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      type,
+      quality
+    );
+  });
+
+// Browsers that cannot encode WebP silently fall back to PNG, so check
+// what came back and use JPEG instead
+const encode = async (canvas: HTMLCanvasElement, quality: number) => {
+  const webp = await toBlob(canvas, 'image/webp', quality);
+  return webp.type === 'image/webp' ? webp : toBlob(canvas, 'image/jpeg', quality);
+};
+
+const extensionFor = (type: string) => (type === 'image/webp' ? 'webp' : 'jpg');
+
+const renamed = (name: string, extension: string) =>
+  `${name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name}.${extension}`;
+
+/**
+ * Decodes `file`, downscales it and re-encodes it along with a thumbnail and
+ * a tiny blurred placeholder. Re-encoding through a canvas drops EXIF and
+ * other metadata, and the orientation is applied to the pixels first.
+ */
+export async function processImage(file: File): Promise<ProcessedImage> {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`${file.name}: this image could not be read`);
+  }
+
+  try {
+    const full = drawScaled(bitmap, MAX_IMAGE_DIMENSION);
+    const [fullBlob, thumbnail] = await Promise.all([
+      encode(full, IMAGE_QUALITY),
+      encode(drawScaled(bitmap, THUMBNAIL_DIMENSION), THUMBNAIL_QUALITY)
+    ]);
+    const placeholder = drawScaled(bitmap, PLACEHOLDER_DIMENSION).toDataURL('image/jpeg', 0.5);
+
+    return {
+      file: new File([fullBlob], renamed(file.name, extensionFor(fullBlob.type)), {
+        type: fullBlob.type
+      }),
+      thumbnail,
+      width: full.width,
+      height: full.height,
+      placeholder
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,71 @@
+// Mentions are stored in message content as `<@user_id>` and rendered with
+// the user's current display name, so renaming never breaks them
+const MENTION_TOKEN = /<@([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})>/g;
+
+export interface MentionCandidate {
+  id: string;
+  name: string;
+}
+
+export const mentionToken = (userId: string) => `<@${userId}>`;
+
+export const mentionedUserIds = (content: string) => [
+  ...new Set([...content.matchAll(MENTION_TOKEN)].map((match) => match[1]))
+];
+
+/**
+ * Splits `text` into plain strings and mentioned user ids, in order.
+ */
+export const splitMentions = (text: string) => {
+  const parts: ({ text: string } | { userId: string })[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_TOKEN)) {
+    if (match.index > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, match.index) });
+    }
+    parts.push({ userId: match[1] });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex) });
+  }
+  return parts;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Turns `@Display Name` typed in the composer into mention tokens for the
+ * given candidates. Longer names are matched first so "@Ann Lee" is not
+ * taken as "@Ann".
+ */
+export const encodeMentions = (text: string, candidates: MentionCandidate[]) =>
+  [...candidates]
+    .filter((candidate) => candidate.name)
+    .sort((a, b) => b.name.length - a.name.length)
+    .reduce(
+      (encoded, candidate) =>
+        encoded.replace(
+          new RegExp(`(^|[^\\w<])@${escapeRegExp(candidate.name)}(?![\\w])`, 'g'),
+          `$1${mentionToken(candidate.id)}`
+        ),
+      text
+    );
+
+/**
+ * The reverse of `encodeMentions`, used to put a message back into an editor.
+ */
+export const decodeMentions = (content: string, names: Record<string, string>) =>
+  content.replace(MENTION_TOKEN, (token, userId: string) =>
+    names[userId] ? `@${names[userId]}` : token
+  );
+
+/**
+ * The `@query` being typed just before the caret, if any.
+ */
+export const activeMentionQuery = (text: string, caret: number) => {
+  const match = /(^|\s)@([^\s@]{0,30})$/.exec(text.slice(0, caret));
+  return match ? { query: match[2], start: caret - match[2].length - 1 } : null;
+};
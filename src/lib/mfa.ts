@@ -0,0 +1,34 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// The access token's `aal` claim says whether the session has passed a
+// second factor. Reading it directly keeps this synchronous, which matters
+// because supabase-js must not be called from inside onAuthStateChange.
+const sessionAal = (session: Session) => {
+  try {
+    const payload = session.access_token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return (JSON.parse(atob(payload)) as { aal?: string }).aal ?? 'aal1';
+  } catch {
+    return 'aal1';
+  }
+};
+
+/**
+ * True when the user has a verified authenticator but this session has not
+ * been confirmed with it yet.
+ */
+export const needsSecondFactor = (session: Session) =>
+  sessionAal(session) !== 'aal2' &&
+  (session.user.factors ?? []).some((factor) => factor.status === 'verified');
+
+/**
+ * Whether the current session has passed a second factor, as required by
+ * rooms with `require_mfa`.
+ */
+export const hasSecondFactor = async () => {
+  const { data } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  return data?.currentLevel === 'aal2';
+};
+
+// Recovery codes are generated server-side as `xxxxx-xxxxx`
+export const RECOVERY_CODE_PATTERN = /^[0-9a-f]{5}-?[0-9a-f]{5}$/i;
@@ -0,0 +1,59 @@
+// Text messages are written here before they are sent and removed once the
+// server has them, so nothing typed is lost to a failed request or a closed tab
+const DB_NAME = 'ding-chat';
+const DB_VERSION = 1;
+const STORE = 'outbox';
+
+export type OutboxStatus = 'sending' | 'failed';
+
+export interface OutboxEntry {
+  // Also the id of the message row, so the realtime INSERT can be matched
+  id: string;
+  room_id: string;
+  user_id: string;
+  content: string;
+  mentions: string[];
+  created_at: string;
+  status: OutboxStatus;
+  error: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveOutboxEntry = (entry: OutboxEntry) =>
+  run('readwrite', (store) => store.put(entry));
+
+export const removeOutboxEntry = (id: string) => run('readwrite', (store) => store.delete(id));
+
+/**
+ * Every queued message of `userId`, oldest first.
+ */
+export const listOutboxEntries = async (userId: string) => {
+  const entries = await run<OutboxEntry[]>('readonly', (store) => store.getAll());
+  return entries
+    .filter((entry) => entry.user_id === userId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
@@ -0,0 +1,44 @@
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Supabase Auth hashes with bcrypt, which ignores anything past 72 bytes
+const MAX_PASSWORD_BYTES = 72;
+
+export interface PasswordRule {
+  label: string;
+  message: string;
+  test: (password: string) => boolean;
+}
+
+/**
+ * Rules for every new password, whether chosen at sign-up, in profile
+ * settings or after a reset link. Signing in does not check them so older
+ * accounts with weaker passwords can still get in.
+ */
+export const PASSWORD_RULES: PasswordRule[] = [
+  {
+    label: `At least ${MIN_PASSWORD_LENGTH} characters`,
+    message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+    test: (password) => password.length >= MIN_PASSWORD_LENGTH
+  },
+  {
+    label: 'Upper and lowercase letters',
+    message: 'Password must mix upper and lowercase letters',
+    test: (password) => /\p{Lu}/u.test(password) && /\p{Ll}/u.test(password)
+  },
+  {
+    label: 'A number or symbol',
+    message: 'Password must contain a number or symbol',
+    test: (password) => /[^\p{L}\s]/u.test(password)
+  },
+  {
+    label: `No more than ${MAX_PASSWORD_BYTES} bytes`,
+    message: 'Password is too long',
+    test: (password) => new TextEncoder().encode(password).length <= MAX_PASSWORD_BYTES
+  }
+];
+
+/**
+ * Returns why `password` is not acceptable as a new password, or null.
+ */
+export const passwordProblem = (password: string) =>
+  PASSWORD_RULES.find((rule) => !rule.test(password))?.message ?? null;
@@ -0,0 +1,56 @@
+import { supabase } from '../supabase';
+import { unwrap } from '../errors';
+import type { Tables, TablesUpdate } from '../database.types';
+
+// `dnd_start` and `dnd_end` are local wall-clock times as returned by
+// Postgres, e.g. '22:00:00'
+export type UserSettings = Pick<
+  Tables<'user_settings'>,
+  'sound_enabled' | 'dnd_enabled' | 'dnd_start' | 'dnd_end'
+>;
+
+export type UserSettingsChanges = Pick<
+  TablesUpdate<'user_settings'>,
+  'sound_enabled' | 'dnd_enabled' | 'dnd_start' | 'dnd_end'
+>;
+
+const SETTINGS_COLUMNS = 'sound_enabled, dnd_enabled, dnd_start, dnd_end';
+
+/**
+ * The user's notification settings, or null if they never saved any.
+ */
+export const getUserSettings = async (userId: string) =>
+  unwrap(
+    await supabase
+      .from('user_settings')
+      .select(SETTINGS_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle()
+  );
+
+export const upsertUserSettings = async (userId: string, changes: UserSettingsChanges) =>
+  unwrap(
+    await supabase
+      .from('user_settings')
+      .upsert({ user_id: userId, ...changes })
+      .select(SETTINGS_COLUMNS)
+      .single()
+  );
+
+/**
+ * Replaces the user's recovery codes and returns the new ones. Only hashes
+ * are stored, so this is the one chance to show them. Requires AAL2.
+ */
+export const generateRecoveryCodes = async () =>
+  unwrap(await supabase.rpc('generate_recovery_codes'));
+
+/**
+ * Uses up a recovery code, which removes the user's authenticator app.
+ * Returns false if the code is not valid.
+ */
+export const redeemRecoveryCode = async (code: string) =>
+  unwrap(await supabase.rpc('redeem_recovery_code', { p_code: code }));
+
+export const discardRecoveryCodes = async () => {
+  unwrap(await supabase.rpc('discard_recovery_codes'));
+};
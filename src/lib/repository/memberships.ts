@@ -0,0 +1,193 @@
+import { supabase } from '../supabase';
+import { toAppError, unwrap } from '../errors';
+import type { Tables } from '../database.types';
+import { toRoomKind, type RoomKind } from './rooms';
+import { oneOf, present } from './rows';
+
+const ROOM_ROLES = ['owner', 'moderator', 'member'] as const;
+
+const NOTIFICATION_LEVELS = ['all', 'mentions', 'muted'] as const;
+
+export type RoomRole = (typeof ROOM_ROLES)[number];
+
+export type NotificationLevel = (typeof NOTIFICATION_LEVELS)[number];
+
+// `joined_at` always has its default, and `role` and `notification_level`
+// are limited by check constraints the generated types cannot see
+export type Membership = Omit<Tables<'room_users'>, 'joined_at' | 'role' | 'notification_level'> & {
+  joined_at: string;
+  role: RoomRole;
+  notification_level: NotificationLevel;
+};
+
+export type Member = Pick<Membership, 'user_id' | 'role' | 'joined_at'>;
+
+export type RoomBan = Pick<Tables<'room_bans'>, 'user_id' | 'reason' | 'expires_at'>;
+
+export interface NotificationPreference extends Pick<Membership, 'room_id' | 'notification_level'> {
+  rooms: { name: string; kind: RoomKind } | null;
+}
+
+const toRole = (role: string) => oneOf(role, ROOM_ROLES, 'member role');
+
+const toNotificationLevel = (level: string) =>
+  oneOf(level, NOTIFICATION_LEVELS, 'notification level');
+
+/**
+ * Whether `userId` is a member of the room. Malformed room ids fail the
+ * uuid cast and count as unknown rooms.
+ */
+export const isRoomMember = async (roomId: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('room_users')
+    .select('room_id')
+    .eq('room_id', roomId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !error && data !== null;
+};
+
+/**
+ * The user's role in each room they are a member of, keyed by room id.
+ */
+export const listRoles = async (userId: string) => {
+  const rows = unwrap(
+    await supabase.from('room_users').select('room_id, role').eq('user_id', userId)
+  );
+
+  return Object.fromEntries(rows.map((row) => [row.room_id, toRole(row.role)]));
+};
+
+export const getLastReadAt = async (roomId: string, userId: string) =>
+  unwrap(
+    await supabase
+      .from('room_users')
+      .select('last_read_at')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .maybeSingle()
+  )?.last_read_at ?? null;
+
+export const countMembers = async (roomId: string) => {
+  const { count, error } = await supabase
+    .from('room_users')
+    .select('*', { count: 'exact', head: true })
+    .eq('room_id', roomId);
+
+  if (error) throw toAppError(error);
+  return count ?? 0;
+};
+
+export const leaveRoom = async (roomId: string, userId: string) => {
+  unwrap(
+    await supabase.from('room_users').delete().eq('room_id', roomId).eq('user_id', userId)
+  );
+};
+
+export const listMembers = async (roomId: string) =>
+  unwrap(
+    await supabase
+      .from('room_users')
+      .select('user_id, role, joined_at')
+      .eq('room_id', roomId)
+      .order('joined_at', { ascending: true })
+  ).map(
+    (row): Member => ({
+      user_id: row.user_id,
+      role: toRole(row.role),
+      joined_at: present(row.joined_at, 'join time')
+    })
+  );
+
+export const listActiveBans = async (roomId: string) =>
+  unwrap(
+    await supabase
+      .from('room_bans')
+      .select('user_id, reason, expires_at')
+      .eq('room_id', roomId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+  );
+
+export const setMemberRole = async (
+  roomId: string,
+  userId: string,
+  role: Exclude<RoomRole, 'owner'>
+) => {
+  unwrap(
+    await supabase.rpc('set_member_role', { p_room_id: roomId, p_user_id: userId, p_role: role })
+  );
+};
+
+export const kickMember = async (roomId: string, userId: string) => {
+  unwrap(await supabase.rpc('kick_member', { p_room_id: roomId, p_user_id: userId }));
+};
+
+/**
+ * Bans a member. `duration` is a Postgres interval such as '1 day'; null
+ * bans permanently.
+ */
+export const banMember = async (
+  roomId: string,
+  userId: string,
+  duration: string | null,
+  reason: string
+) => {
+  unwrap(
+    await supabase.rpc('ban_member', {
+      p_room_id: roomId,
+      p_user_id: userId,
+      p_duration: duration,
+      p_reason: reason
+    })
+  );
+};
+
+export const unbanMember = async (roomId: string, userId: string) => {
+  unwrap(await supabase.rpc('unban_member', { p_room_id: roomId, p_user_id: userId }));
+};
+
+export const getNotificationLevel = async (roomId: string, userId: string) => {
+  const row = unwrap(
+    await supabase
+      .from('room_users')
+      .select('notification_level')
+      .eq('room_id', roomId)
+      .eq('user_id', userId)
+      .maybeSingle()
+  );
+
+  return row && toNotificationLevel(row.notification_level);
+};
+
+export const setNotificationLevel = async (roomId: string, level: NotificationLevel) => {
+  unwrap(
+    await supabase.rpc('set_notification_level', { p_room_id: roomId, p_level: level })
+  );
+};
+
+/**
+ * The user's notification level in each of their rooms, with the room's
+ * name and kind for the notification text.
+ */
+export const listNotificationPreferences = async (userId: string) =>
+  unwrap(
+    await supabase
+      .from('room_users')
+      .select('room_id, notification_level, rooms(name, kind)')
+      .eq('user_id', userId)
+  ).map(
+    ({ rooms, ...preference }): NotificationPreference => ({
+      ...preference,
+      notification_level: toNotificationLevel(preference.notification_level),
+      rooms: rooms && { name: rooms.name, kind: toRoomKind(rooms.kind) }
+    })
+  );
+
+/**
+ * Moves the caller's read marker in the room forward to `readAt`. The
+ * server ignores markers older than the current one.
+ */
+export const markRoomRead = async (roomId: string, readAt: string) => {
+  unwrap(await supabase.rpc('mark_room_read', { p_room_id: roomId, p_read_at: readAt }));
+};
@@ -0,0 +1,203 @@
+import { supabase } from '../supabase';
+import { unwrap } from '../errors';
+import type { Tables, TablesInsert } from '../database.types';
+import { toRoomKind, type RoomKind } from './rooms';
+import { oneOf, present } from './rows';
+import { requestStorageCleanup } from './storage';
+
+const MESSAGE_TYPES = ['text', 'image', 'file'] as const;
+
+export type MessageType = (typeof MESSAGE_TYPES)[number];
+
+// `created_at` always has its default, and `message_type` is limited by a
+// check constraint the generated types cannot see
+export type Message = Omit<Tables<'messages'>, 'created_at' | 'message_type'> & {
+  created_at: string;
+  message_type: MessageType;
+};
+
+export interface Mention extends Pick<Message, 'id' | 'content' | 'created_at' | 'user_id' | 'room_id'> {
+  rooms: { name: string; kind: RoomKind } | null;
+}
+
+export type Reaction = Omit<Tables<'message_reactions'>, 'created_at'> & { created_at: string };
+
+export type ReactionKey = Pick<Reaction, 'message_id' | 'user_id' | 'emoji'>;
+
+export type AttachmentMessage = Omit<TablesInsert<'messages'>, 'id' | 'message_type'> & {
+  message_type: Exclude<MessageType, 'text'>;
+};
+
+// Postgres unique_violation: the row already exists, so an earlier attempt
+// reached the server even though its response was lost
+const ALREADY_SENT = '23505';
+
+const toMessage = (row: Tables<'messages'>): Message => ({
+  ...row,
+  created_at: present(row.created_at, 'message time'),
+  message_type: oneOf(row.message_type, MESSAGE_TYPES, 'message type')
+});
+
+/**
+ * The newest `limit` messages of a room, oldest first.
+ */
+export const listLatestMessages = async (roomId: string, limit: number) => {
+  const messages = unwrap(
+    await supabase
+      .from('messages')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit)
+  ).map(toMessage);
+
+  return messages.reverse();
+};
+
+/**
+ * Up to `limit` messages sent before `before`, oldest first.
+ */
+export const listMessagesBefore = async (
+  roomId: string,
+  before: Pick<Message, 'id' | 'created_at'>,
+  limit: number
+) => {
+  // Keyset cursor on (created_at, id) so equal timestamps are not skipped
+  const messages = unwrap(
+    await supabase
+      .from('messages')
+      .select('*')
+      .eq('room_id', roomId)
+      .or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+      )
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit)
+  ).map(toMessage);
+
+  return messages.reverse();
+};
+
+/**
+ * Inserts a text message under an id chosen by the client. If a message with
+ * that id already exists, i.e. it was sent before, that row is returned.
+ */
+export const sendTextMessage = async (
+  message: Pick<Message, 'id' | 'room_id' | 'user_id' | 'content' | 'mentions'>
+) => {
+  const result = await supabase
+    .from('messages')
+    .insert([{ ...message, message_type: 'text' }])
+    .select()
+    .single();
+
+  if (result.error?.code === ALREADY_SENT) {
+    // The realtime INSERT of the earlier attempt may have been missed too
+    return toMessage(
+      unwrap(
+        await supabase
+          .from('messages')
+          .select('*')
+          .eq('id', message.id)
+          .eq('user_id', message.user_id)
+          .single()
+      )
+    );
+  }
+
+  return toMessage(unwrap(result));
+};
+
+export const sendAttachmentMessage = async (message: AttachmentMessage) => {
+  unwrap(await supabase.from('messages').insert([message]));
+};
+
+export const editMessage = async (messageId: string, content: string, mentions: string[]) =>
+  toMessage(
+    unwrap(
+      await supabase
+        .from('messages')
+        .update({ content, mentions })
+        .eq('id', messageId)
+        .select()
+        .single()
+    )
+  );
+
+/**
+ * Soft-deletes a message and returns its cleared row. The database queues
+ * the message's file for removal at the same time.
+ */
+export const deleteMessage = async (message: Pick<Message, 'id' | 'file_path' | 'image_url'>) => {
+  const deleted = toMessage(
+    unwrap(
+      await supabase
+        .from('messages')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', message.id)
+        .select()
+        .single()
+    )
+  );
+
+  if (message.file_path || message.image_url) {
+    requestStorageCleanup();
+  }
+  return deleted;
+};
+
+/**
+ * The most recent messages that mention `userId`. RLS limits this to rooms
+ * the user can still read.
+ */
+export const listMentions = async (userId: string, limit: number) =>
+  unwrap(
+    await supabase
+      .from('messages')
+      .select('id, content, created_at, user_id, room_id, rooms(name, kind)')
+      .contains('mentions', [userId])
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+  ).map(
+    ({ rooms, ...mention }): Mention => ({
+      ...mention,
+      created_at: present(mention.created_at, 'message time'),
+      rooms: rooms && { name: rooms.name, kind: toRoomKind(rooms.kind) }
+    })
+  );
+
+export const listReactions = async (roomId: string) => {
+  const rows = unwrap(
+    await supabase
+      .from('message_reactions')
+      .select('message_id, user_id, emoji, created_at, messages!inner(room_id)')
+      .eq('messages.room_id', roomId)
+  );
+
+  return rows.map(
+    ({ message_id, user_id, emoji, created_at }): Reaction => ({
+      message_id,
+      user_id,
+      emoji,
+      created_at: present(created_at, 'reaction time')
+    })
+  );
+};
+
+export const addReaction = async (reaction: ReactionKey) => {
+  unwrap(await supabase.from('message_reactions').insert([reaction]));
+};
+
+export const removeReaction = async ({ message_id, user_id, emoji }: ReactionKey) => {
+  unwrap(
+    await supabase
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', message_id)
+      .eq('user_id', user_id)
+      .eq('emoji', emoji)
+  );
+};
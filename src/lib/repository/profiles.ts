@@ -0,0 +1,25 @@
+import { supabase } from '../supabase';
+import { unwrap } from '../errors';
+import type { Tables, TablesUpdate } from '../database.types';
+
+export type Profile = Pick<Tables<'profiles'>, 'id' | 'display_name' | 'avatar_url' | 'bio'>;
+
+export type ProfileChanges = Pick<TablesUpdate<'profiles'>, 'display_name' | 'bio' | 'avatar_url'>;
+
+const PROFILE_COLUMNS = 'id, display_name, avatar_url, bio';
+
+export const listProfiles = async (userIds: string[]) =>
+  unwrap(await supabase.from('profiles').select(PROFILE_COLUMNS).in('id', userIds));
+
+/**
+ * Saves changes to the user's own profile and returns the updated profile.
+ */
+export const updateProfile = async (userId: string, changes: ProfileChanges) =>
+  unwrap(
+    await supabase
+      .from('profiles')
+      .update(changes)
+      .eq('id', userId)
+      .select(PROFILE_COLUMNS)
+      .single()
+  );
@@ -0,0 +1,171 @@
+import { supabase } from '../supabase';
+import { unwrap } from '../errors';
+import type { Tables } from '../database.types';
+import { oneOf, present } from './rows';
+import { requestStorageCleanup } from './storage';
+
+const ROOM_KINDS = ['group', 'direct'] as const;
+
+export type RoomKind = (typeof ROOM_KINDS)[number];
+
+// `created_at` always has its default, and `kind` is limited by a check
+// constraint the generated types cannot see
+export type Room = Omit<Tables<'rooms'>, 'created_at' | 'kind'> & {
+  created_at: string;
+  kind: RoomKind;
+};
+
+export interface RoomDetails extends Pick<Room, 'name' | 'owner_id' | 'kind'> {
+  room_users: { user_id: string }[];
+}
+
+export interface DirectConversation extends Pick<Room, 'id' | 'created_at'> {
+  room_users: { user_id: string }[];
+}
+
+export type RoomInvite = Pick<
+  Tables<'room_invites'>,
+  'id' | 'token' | 'expires_at' | 'max_uses' | 'use_count'
+>;
+
+export type RoomSettingsChanges = Pick<Room, 'max_users' | 'require_mfa'>;
+
+export const toRoomKind = (kind: string) => oneOf(kind, ROOM_KINDS, 'room kind');
+
+const toRoom = (row: Tables<'rooms'>): Room => ({
+  ...row,
+  created_at: present(row.created_at, 'room creation time'),
+  kind: toRoomKind(row.kind)
+});
+
+export const listGroupRooms = async () =>
+  unwrap(
+    await supabase
+      .from('rooms')
+      .select('*')
+      .eq('kind', 'group')
+      .order('created_at', { ascending: false })
+  ).map(toRoom);
+
+/**
+ * The user's direct conversations with their participants. RLS only
+ * returns direct rooms the user takes part in.
+ */
+export const listDirectConversations = async () =>
+  unwrap(
+    await supabase
+      .from('rooms')
+      .select('id, created_at, room_users(user_id)')
+      .eq('kind', 'direct')
+      .order('created_at', { ascending: false })
+  ).map(
+    (row): DirectConversation => ({
+      ...row,
+      created_at: present(row.created_at, 'room creation time')
+    })
+  );
+
+export const getRoomDetails = async (roomId: string): Promise<RoomDetails> => {
+  const row = unwrap(
+    await supabase
+      .from('rooms')
+      .select('name, owner_id, kind, room_users(user_id)')
+      .eq('id', roomId)
+      .single()
+  );
+
+  return { ...row, kind: toRoomKind(row.kind) };
+};
+
+/**
+ * Creates a group room owned by the caller and returns its id.
+ */
+export const createRoom = async (name: string, password: string, maxUsers: number) =>
+  unwrap(
+    await supabase.rpc('create_room', {
+      p_name: name,
+      p_password: password,
+      p_max_users: maxUsers
+    })
+  );
+
+// The server checks the password and capacity and records membership
+export const joinRoom = async (roomId: string, password: string) => {
+  unwrap(await supabase.rpc('join_room', { p_room_id: roomId, p_password: password }));
+};
+
+export const updateRoomSettings = async (roomId: string, changes: RoomSettingsChanges) => {
+  unwrap(await supabase.from('rooms').update(changes).eq('id', roomId));
+};
+
+export const setRoomPassword = async (roomId: string, password: string) => {
+  unwrap(await supabase.rpc('set_room_password', { p_room_id: roomId, p_password: password }));
+};
+
+/**
+ * Deletes a room with everything in it. Ownership, the cascade and queueing
+ * the room's files for removal all happen in one transaction, so a failure
+ * leaves the room untouched.
+ */
+export const deleteRoom = async (roomId: string) => {
+  unwrap(await supabase.rpc('delete_room', { p_room_id: roomId }));
+  requestStorageCleanup();
+};
+
+/**
+ * Returns the id of the direct conversation with `userId`, creating it if
+ * needed.
+ */
+export const startDirectConversation = async (userId: string) =>
+  unwrap(await supabase.rpc('start_direct_conversation', { p_user_id: userId }));
+
+/**
+ * Invite links that can still be used. Revoked and expired links are
+ * filtered by the query, used-up ones here.
+ */
+export const listActiveInvites = async (roomId: string) => {
+  const invites = unwrap(
+    await supabase
+      .from('room_invites')
+      .select('id, token, expires_at, max_uses, use_count')
+      .eq('room_id', roomId)
+      .is('revoked_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false })
+  );
+
+  return invites.filter((invite) => invite.max_uses === null || invite.use_count < invite.max_uses);
+};
+
+/**
+ * Creates an invite link and returns its token. `expiresIn` is a Postgres
+ * interval such as '1 day'; null for either limit means none.
+ */
+export const createInvite = async (
+  roomId: string,
+  expiresIn: string | null,
+  maxUses: number | null
+) =>
+  unwrap(
+    await supabase.rpc('create_room_invite', {
+      p_room_id: roomId,
+      p_expires_in: expiresIn,
+      // Generated types cannot mark arguments as nullable
+      p_max_uses: maxUses as number
+    })
+  );
+
+export const revokeInvite = async (inviteId: string) => {
+  unwrap(await supabase.rpc('revoke_room_invite', { p_invite_id: inviteId }));
+};
+
+/**
+ * Joins the room an invite token belongs to and returns its id.
+ */
+export const redeemInvite = async (token: string) =>
+  unwrap(await supabase.rpc('redeem_room_invite', { p_token: token }));
+
+/**
+ * Unread message and mention counts for each room the user is a member of.
+ */
+export const getUnreadCounts = async () => unwrap(await supabase.rpc('get_unread_counts'));
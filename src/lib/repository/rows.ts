@@ -0,0 +1,23 @@
+import { AppError } from '../errors';
+
+// The generated types cannot see check constraints or column defaults, so
+// rows are narrowed here. A value that fails these checks means the
+// database has moved on from this build of the app.
+const schemaMismatch = (column: string) =>
+  new AppError(`The server sent an unexpected ${column}. Try reloading the page.`);
+
+/**
+ * Narrows a column limited by a check constraint to its allowed values.
+ */
+export const oneOf = <T extends string>(value: string, allowed: readonly T[], column: string) => {
+  if (!(allowed as readonly string[]).includes(value)) throw schemaMismatch(column);
+  return value as T;
+};
+
+/**
+ * Narrows a nullable column that always has its default.
+ */
+export const present = <T>(value: T | null, column: string) => {
+  if (value === null) throw schemaMismatch(column);
+  return value;
+};
@@ -0,0 +1,131 @@
+import { isDemoMode, supabase, supabaseUrl, supabaseAnonKey } from '../supabase';
+import { AppError, unwrap } from '../errors';
+
+export const ATTACHMENTS_BUCKET = 'message-files';
+
+// Images sent before attachments existed, stored under `<user_id>/`
+export const LEGACY_IMAGES_BUCKET = 'message-images';
+
+const AVATARS_BUCKET = 'avatars';
+
+// Storage policies read the room and uploader from the first two segments
+const attachmentPath = (roomId: string, userId: string, file: File) => {
+  const extension = file.name.includes('.') ? `.${file.name.split('.').pop()}` : '';
+  return `${roomId}/${userId}/${crypto.randomUUID()}${extension}`;
+};
+
+// Thumbnails sit next to their image: `<id>.webp` gets `<id>.thumb.webp`
+const thumbnailPath = (path: string, thumbnail: Blob) =>
+  `${path.replace(/\.[^./]*$/, '')}.thumb.${thumbnail.type === 'image/webp' ? 'webp' : 'jpg'}`;
+
+export interface UploadOptions {
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const uploadErrorMessage = (responseText: string) => {
+  try {
+    return JSON.parse(responseText).message || 'Upload failed';
+  } catch {
+    return 'Upload failed';
+  }
+};
+
+// The demo backend stores files without a network request, so progress
+// jumps straight to done
+const demoUpload = async (path: string, body: Blob, { onProgress, signal }: UploadOptions) => {
+  if (signal?.aborted) throw new DOMException('Upload cancelled', 'AbortError');
+  unwrap(await supabase.storage.from(ATTACHMENTS_BUCKET).upload(path, body));
+  onProgress?.(1);
+  return path;
+};
+
+// The storage client has no progress events, so uploads go through XHR
+// against the same endpoint with the user's access token
+const upload = async (path: string, body: Blob, options: UploadOptions = {}) => {
+  if (isDemoMode) return demoUpload(path, body, options);
+
+  const { onProgress, signal } = options;
+  const {
+    data: { session }
+  } = await supabase.auth.getSession();
+  if (!session) throw new AppError('Not authenticated');
+
+  return new Promise<string>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${supabaseUrl}/storage/v1/object/${ATTACHMENTS_BUCKET}/${path}`);
+    xhr.setRequestHeader('Authorization', `Bearer ${session.access_token}`);
+    xhr.setRequestHeader('apikey', supabaseAnonKey);
+    xhr.setRequestHeader('Content-Type', body.type || 'application/octet-stream');
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () =>
+      xhr.status >= 200 && xhr.status < 300
+        ? resolve(path)
+        : reject(new AppError(uploadErrorMessage(xhr.responseText)));
+    xhr.onerror = () => reject(new AppError('Network error while uploading'));
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+    signal?.addEventListener('abort', () => xhr.abort());
+    xhr.send(body);
+  });
+};
+
+/**
+ * Uploads a file into the room's attachment folder and returns its path.
+ * Cancelling through `signal` rejects with an `AbortError`.
+ */
+export const uploadAttachment = (
+  roomId: string,
+  userId: string,
+  file: File,
+  options?: UploadOptions
+) => upload(attachmentPath(roomId, userId, file), file, options);
+
+export const uploadThumbnail = (imagePath: string, thumbnail: Blob, options?: UploadOptions) =>
+  upload(thumbnailPath(imagePath, thumbnail), thumbnail, options);
+
+/**
+ * A signed URL for a private attachment, or for a legacy image in
+ * `LEGACY_IMAGES_BUCKET`. Storage only signs paths the current user is
+ * allowed to read.
+ */
+export const createAttachmentUrl = async (
+  path: string,
+  expiresInSeconds: number,
+  bucket = ATTACHMENTS_BUCKET
+) => unwrap(await supabase.storage.from(bucket).createSignedUrl(path, expiresInSeconds)).signedUrl;
+
+/**
+ * The path in `LEGACY_IMAGES_BUCKET` that an old message's `image_url`
+ * points at. The bucket used to be public, so the URLs are public ones.
+ */
+export const legacyImagePath = (imageUrl: string | null) =>
+  imageUrl?.match(/\/object\/public\/message-images\/(.+)$/)?.[1] ?? null;
+
+/**
+ * Uploads a new avatar image for `userId` and returns its public URL.
+ */
+export const uploadAvatar = async (userId: string, file: File) => {
+  const path = `${userId}/avatar-${Date.now()}.${file.name.split('.').pop()}`;
+  unwrap(await supabase.storage.from(AVATARS_BUCKET).upload(path, file));
+
+  return supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+/**
+ * Asks the `storage-cleanup` function to remove files left behind by deleted
+ * rooms and messages. The database has already queued them, and anything
+ * this call fails to remove is retried on the function's schedule, so
+ * callers neither wait for it nor report its errors.
+ */
+export const requestStorageCleanup = () => {
+  void supabase.functions.invoke('storage-cleanup');
+};
@@ -0,0 +1,41 @@
+import type { Location } from 'react-router-dom';
+
+// Every client-side path lives here so links and redirects stay in sync
+export const ROOMS_PATH = '/';
+export const SIGN_IN_PATH = '/sign-in';
+export const PROFILE_SETTINGS_PATH = '/settings/profile';
+export const RESET_PASSWORD_PATH = '/reset-password';
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+
+export const roomPath = (roomId: string) => `/rooms/${roomId}`;
+
+export const invitePath = (token: string) => `/invite/${token}`;
+
+export const inviteLink = (token: string) => `${window.location.origin}${invitePath(token)}`;
+
+// Where OAuth providers and emailed sign-in links send the browser back to.
+// It has to be listed in the Auth redirect URLs.
+export const authCallbackUrl = () => `${window.location.origin}${AUTH_CALLBACK_PATH}`;
+
+// Set when a signed-out visitor is sent to the sign-in page
+export interface SignInState {
+  from?: Location;
+}
+
+export const returnPathFrom = (state: unknown) => {
+  const from = (state as SignInState | null)?.from;
+  return from ? `${from.pathname}${from.search}${from.hash}` : ROOMS_PATH;
+};
+
+// Sign-in links may be opened in another tab, so the page to return to
+// after the auth callback is kept in local storage rather than router state
+const RETURN_TO_KEY = 'authReturnTo';
+
+export const rememberReturnPath = (path: string) => localStorage.setItem(RETURN_TO_KEY, path);
+
+export const takeReturnPath = () => {
+  const path = localStorage.getItem(RETURN_TO_KEY);
+  localStorage.removeItem(RETURN_TO_KEY);
+  // Only same-origin paths, so a stored value cannot redirect off-site
+  return path?.startsWith('/') && !path.startsWith('//') ? path : ROOMS_PATH;
+};
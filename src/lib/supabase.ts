@@ -1,6 +1,16 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { createDemoClient } from './demo/client';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+/**
+ * With `VITE_DEMO_MODE=true` the app runs against an in-browser backend
+ * instead of a Supabase project, and the Supabase settings are not needed.
+ */
+export const isDemoMode = import.meta.env.VITE_DEMO_MODE === 'true';
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+export const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+export const supabase = isDemoMode
+  ? createDemoClient()
+  : createClient<Database>(supabaseUrl, supabaseAnonKey);
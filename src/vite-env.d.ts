@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_MAX_ATTACHMENT_MB?: string;
+  readonly VITE_ALLOWED_ATTACHMENT_TYPES?: string;
+  readonly VITE_AUTH_PROVIDERS?: string;
+  readonly VITE_DEMO_MODE?: string;
+}
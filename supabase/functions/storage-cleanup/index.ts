@@ -0,0 +1,102 @@
+// Removes storage objects queued by `queue_storage_cleanup` (deleted rooms
+// and messages). The app calls it right after a delete; scheduling it as
+// well retries anything that failed.
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const BATCH_SIZE = 100;
+
+// Failed removals are retried after 1, 2, 4, ... minutes. After the last
+// attempt the row is left in the queue with its error for someone to look at.
+const MAX_ATTEMPTS = 10;
+const FIRST_RETRY_MS = 60 * 1000;
+
+const nextAttemptAt = (attempts: number) =>
+  new Date(Date.now() + FIRST_RETRY_MS * 2 ** (attempts - 1)).toISOString();
+
+interface QueuedObject {
+  id: number;
+  bucket_id: string;
+  object_name: string;
+  attempts: number;
+}
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data, error } = await supabase
+    .from('storage_cleanup_queue')
+    .select('id, bucket_id, object_name, attempts')
+    .lt('attempts', MAX_ATTEMPTS)
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const queued = (data ?? []) as QueuedObject[];
+  const byBucket = new Map<string, QueuedObject[]>();
+  queued.forEach((item) => {
+    byBucket.set(item.bucket_id, [...(byBucket.get(item.bucket_id) ?? []), item]);
+  });
+
+  const remove = (bucket: string, items: QueuedObject[]) =>
+    supabase.storage.from(bucket).remove(items.map((item) => item.object_name));
+
+  const dequeue = (items: QueuedObject[]) =>
+    supabase
+      .from('storage_cleanup_queue')
+      .delete()
+      .in('id', items.map((item) => item.id));
+
+  const recordFailure = (item: QueuedObject, message: string) =>
+    supabase
+      .from('storage_cleanup_queue')
+      .update({
+        attempts: item.attempts + 1,
+        last_error: message,
+        next_attempt_at: nextAttemptAt(item.attempts + 1)
+      })
+      .eq('id', item.id);
+
+  // Queue writes that failed. A row that could not be dequeued is removed
+  // again next time, which is harmless, but either way the caller is told.
+  const errors: string[] = [];
+  const check = async (write: PromiseLike<{ error: { message: string } | null }>) => {
+    const { error: writeError } = await write;
+    if (writeError) errors.push(writeError.message);
+  };
+
+  let removed = 0;
+  for (const [bucket, items] of byBucket) {
+    // Missing objects are not an error, so already-removed files drain too
+    const { error: removeError } = await remove(bucket, items);
+    if (!removeError) {
+      await check(dequeue(items));
+      removed += items.length;
+      continue;
+    }
+
+    // One bad object fails the whole request, so retry them one by one and
+    // only back off the ones that fail again
+    for (const item of items) {
+      const { error: itemError } = await remove(bucket, [item]);
+      if (itemError) {
+        await check(recordFailure(item, itemError.message));
+      } else {
+        await check(dequeue([item]));
+        removed += 1;
+      }
+    }
+  }
+
+  return Response.json(
+    { removed, remaining: queued.length - removed, errors },
+    { status: errors.length > 0 ? 500 : 200 }
+  );
+});
@@ -0,0 +1,162 @@
+/*
+  # Hash room passwords and join rooms through an RPC
+
+  1. New Tables
+    - `room_passwords`
+      - `room_id` (uuid, primary key, references rooms)
+      - `password_hash` (text, bcrypt hash)
+
+  2. Changes
+    - Move existing plaintext passwords out of `rooms` into `room_passwords`,
+      hashing them with bcrypt on the way
+    - Drop `rooms.password_hash` so it is no longer readable by clients
+    - Add `create_room`, `set_room_password` and `join_room` functions
+
+  3. Security
+    - Enable RLS on room_passwords with no policies, so only the
+      security definer functions below can read or write it
+    - Remove direct inserts into `rooms` and `room_users`; rooms are created
+      with `create_room` and joined with `join_room`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Create room_passwords table
+CREATE TABLE IF NOT EXISTS room_passwords (
+  room_id uuid PRIMARY KEY REFERENCES rooms ON DELETE CASCADE,
+  password_hash text NOT NULL
+);
+
+ALTER TABLE room_passwords ENABLE ROW LEVEL SECURITY;
+
+-- Move and hash existing passwords
+INSERT INTO room_passwords (room_id, password_hash)
+SELECT id, extensions.crypt(password_hash, extensions.gen_salt('bf'))
+FROM rooms
+ON CONFLICT (room_id) DO NOTHING;
+
+ALTER TABLE rooms
+DROP COLUMN password_hash;
+
+-- Rooms and memberships are now written through the functions below
+DROP POLICY IF EXISTS "Authenticated users can create rooms" ON rooms;
+DROP POLICY IF EXISTS "Users can join rooms" ON room_users;
+
+-- Create a room with a hashed password and add the owner as its first member
+CREATE OR REPLACE FUNCTION create_room(
+  p_name text,
+  p_password text,
+  p_max_users integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user auth.users%ROWTYPE;
+  v_room_id uuid;
+BEGIN
+  SELECT * INTO v_user FROM auth.users WHERE id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF coalesce(trim(p_password), '') = '' THEN
+    RAISE EXCEPTION 'Room password is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO rooms (name, max_users, owner_id, owner_email)
+  VALUES (p_name, p_max_users, v_user.id, v_user.email)
+  RETURNING id INTO v_room_id;
+
+  INSERT INTO room_passwords (room_id, password_hash)
+  VALUES (v_room_id, crypt(p_password, gen_salt('bf')));
+
+  INSERT INTO room_users (room_id, user_id)
+  VALUES (v_room_id, v_user.id);
+
+  RETURN v_room_id;
+END;
+$$;
+
+-- Replace a room's password; only the owner may do this
+CREATE OR REPLACE FUNCTION set_room_password(
+  p_room_id uuid,
+  p_password text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF coalesce(trim(p_password), '') = '' THEN
+    RAISE EXCEPTION 'Room password is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM rooms WHERE id = p_room_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the room owner can change the password' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO room_passwords (room_id, password_hash)
+  VALUES (p_room_id, crypt(p_password, gen_salt('bf')))
+  ON CONFLICT (room_id) DO UPDATE SET password_hash = EXCLUDED.password_hash;
+END;
+$$;
+
+-- Check the password and capacity, then add the caller to room_users
+CREATE OR REPLACE FUNCTION join_room(
+  p_room_id uuid,
+  p_password text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_hash text;
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the room so concurrent joins cannot both take the last seat
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT password_hash INTO v_hash FROM room_passwords WHERE room_id = p_room_id;
+  IF v_hash IS NULL OR crypt(p_password, v_hash) <> v_hash THEN
+    RAISE EXCEPTION 'Incorrect password' USING ERRCODE = '28P01';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_users WHERE room_id = p_room_id AND user_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_count FROM room_users WHERE room_id = p_room_id;
+  IF v_count >= v_room.max_users THEN
+    RAISE EXCEPTION 'Room is full. Please try another room.' USING ERRCODE = '53300';
+  END IF;
+
+  INSERT INTO room_users (room_id, user_id)
+  VALUES (p_room_id, auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_room(text, text, integer) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION set_room_password(uuid, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION join_room(uuid, text) FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION create_room(text, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_room_password(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_room(uuid, text) TO authenticated;
@@ -0,0 +1,12 @@
+/*
+  # Enable real-time for message reactions
+
+  1. Changes
+    - Add `message_reactions` to the supabase_realtime publication so
+      clients receive reaction inserts and deletes live
+
+  Note: The table's primary key covers every column the client needs, so
+  DELETE events already carry enough of the old row to remove a reaction.
+*/
+
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
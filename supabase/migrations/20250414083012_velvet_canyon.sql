@@ -0,0 +1,93 @@
+/*
+  # Allow editing and deleting messages
+
+  1. Changes
+    - Add `edited_at` and `deleted_at` columns to messages
+    - Add a trigger that stamps `edited_at` on content changes, blanks the
+      content of soft-deleted messages and stops other columns, including
+      the author's `user_email`, from changing
+
+  2. Security
+    - Authors can update (edit or soft-delete) their own messages
+    - Room owners can soft-delete any message in their room
+    - Authors and room owners can hard-delete messages
+*/
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS edited_at timestamptz,
+ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE OR REPLACE FUNCTION guard_message_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id <> OLD.user_id
+    OR NEW.room_id <> OLD.room_id
+    OR NEW.user_email <> OLD.user_email
+    OR NEW.created_at <> OLD.created_at
+    OR NEW.message_type <> OLD.message_type THEN
+    RAISE EXCEPTION 'Only the content of a message can be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.image_url := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    -- Room owners may only delete other people's messages, not rewrite them
+    IF auth.uid() IS DISTINCT FROM OLD.user_id THEN
+      RAISE EXCEPTION 'Only the author can edit a message' USING ERRCODE = '42501';
+    END IF;
+
+    IF trim(NEW.content) = '' THEN
+      RAISE EXCEPTION 'Message cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_message_update
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_message_update();
+
+CREATE POLICY "Authors and room owners can update messages"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = messages.room_id
+      AND rooms.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authors and room owners can delete messages"
+  ON messages
+  FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = messages.room_id
+      AND rooms.owner_id = auth.uid()
+    )
+  );
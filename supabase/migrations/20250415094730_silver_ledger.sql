@@ -0,0 +1,10 @@
+/*
+  # Index messages for paginated history
+
+  1. Changes
+    - Add a composite index on messages (room_id, created_at, id) to back the
+      keyset cursor used when loading older pages of a room's history
+*/
+
+CREATE INDEX IF NOT EXISTS messages_room_id_created_at_id_idx
+  ON messages (room_id, created_at DESC, id DESC);
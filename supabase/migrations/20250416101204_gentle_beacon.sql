@@ -0,0 +1,57 @@
+/*
+  # Track last-read position per room member
+
+  1. Changes
+    - Add `last_read_at` column to room_users
+    - Add `mark_room_read` function to move the caller's marker forward
+    - Add `get_unread_counts` function returning unread message counts for
+      every room the caller is a member of
+
+  2. Security
+    - Both functions only read or write the caller's own room_users rows,
+      so no UPDATE policy on room_users is needed
+*/
+
+ALTER TABLE room_users
+ADD COLUMN IF NOT EXISTS last_read_at timestamptz NOT NULL DEFAULT now();
+
+-- Move the caller's read marker forward; it never moves backwards
+CREATE OR REPLACE FUNCTION mark_room_read(
+  p_room_id uuid,
+  p_read_at timestamptz
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE room_users
+  SET last_read_at = greatest(last_read_at, least(p_read_at, now()))
+  WHERE room_id = p_room_id
+  AND user_id = auth.uid();
+$$;
+
+-- Count messages from other users newer than the caller's read marker
+CREATE OR REPLACE FUNCTION get_unread_counts()
+RETURNS TABLE (room_id uuid, unread_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ru.room_id, count(m.id)::integer
+  FROM room_users ru
+  LEFT JOIN messages m
+    ON m.room_id = ru.room_id
+    AND m.created_at > ru.last_read_at
+    AND m.user_id <> ru.user_id
+    AND m.deleted_at IS NULL
+  WHERE ru.user_id = auth.uid()
+  GROUP BY ru.room_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_room_read(uuid, timestamptz) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION get_unread_counts() FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION mark_room_read(uuid, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_unread_counts() TO authenticated;
@@ -0,0 +1,205 @@
+/*
+  # Add user profiles and stop exposing email addresses
+
+  1. New Tables
+    - `profiles`
+      - `id` (uuid, primary key, references auth.users)
+      - `display_name` (text, 1-50 characters)
+      - `avatar_url` (text, public URL in the `avatars` bucket)
+      - `bio` (text, up to 160 characters)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Create a profile for every existing user, named after their email's
+      local part, and for every new user through a trigger on auth.users
+    - Drop `messages.user_email` and `rooms.owner_email`; clients read
+      names from profiles instead
+    - Recreate the message update guard without `user_email`
+    - Recreate `create_room` without the owner email
+    - Create the public `avatars` storage bucket
+
+  3. Security
+    - Enable RLS on profiles
+    - Authenticated users can read all profiles and update their own
+    - Users can only upload avatars into a folder named after their id
+*/
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  display_name text NOT NULL CHECK (char_length(trim(display_name)) BETWEEN 1 AND 50),
+  avatar_url text,
+  bio text NOT NULL DEFAULT '' CHECK (char_length(bio) <= 160),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view all profiles"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can update their own profile"
+  ON profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION touch_profile_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_profile_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_profile_updated_at();
+
+-- Create a profile for every new user
+CREATE OR REPLACE FUNCTION create_profile_for_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, display_name)
+  VALUES (NEW.id, left(coalesce(nullif(split_part(NEW.email, '@', 1), ''), 'user'), 50))
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_profile_for_user
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION create_profile_for_user();
+
+-- Backfill profiles for existing users
+INSERT INTO profiles (id, display_name)
+SELECT id, left(coalesce(nullif(split_part(email, '@', 1), ''), 'user'), 50)
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- The message update guard compares user_email, so recreate it without the
+-- column before dropping it
+CREATE OR REPLACE FUNCTION guard_message_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id <> OLD.user_id
+    OR NEW.room_id <> OLD.room_id
+    OR NEW.created_at <> OLD.created_at
+    OR NEW.message_type <> OLD.message_type THEN
+    RAISE EXCEPTION 'Only the content of a message can be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.image_url := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    -- Room owners may only delete other people's messages, not rewrite them
+    IF auth.uid() IS DISTINCT FROM OLD.user_id THEN
+      RAISE EXCEPTION 'Only the author can edit a message' USING ERRCODE = '42501';
+    END IF;
+
+    IF trim(NEW.content) = '' THEN
+      RAISE EXCEPTION 'Message cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Stop copying email addresses into readable tables
+ALTER TABLE messages
+DROP COLUMN IF EXISTS user_email;
+
+ALTER TABLE rooms
+DROP COLUMN IF EXISTS owner_email;
+
+CREATE OR REPLACE FUNCTION create_room(
+  p_name text,
+  p_password text,
+  p_max_users integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_room_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF coalesce(trim(p_password), '') = '' THEN
+    RAISE EXCEPTION 'Room password is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO rooms (name, max_users, owner_id)
+  VALUES (p_name, p_max_users, auth.uid())
+  RETURNING id INTO v_room_id;
+
+  INSERT INTO room_passwords (room_id, password_hash)
+  VALUES (v_room_id, crypt(p_password, gen_salt('bf')));
+
+  INSERT INTO room_users (room_id, user_id)
+  VALUES (v_room_id, auth.uid());
+
+  RETURN v_room_id;
+END;
+$$;
+
+-- Avatars are public so they can be shown without signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'avatars' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can replace their own avatar"
+ON storage.objects FOR UPDATE TO authenticated
+USING (
+  bucket_id = 'avatars' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Allow public read access to avatars"
+ON storage.objects FOR SELECT TO public
+USING (bucket_id = 'avatars');
+
+-- Enable real-time so renamed users update everywhere
+ALTER PUBLICATION supabase_realtime ADD TABLE profiles;
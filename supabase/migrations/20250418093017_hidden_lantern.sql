@@ -0,0 +1,190 @@
+/*
+  # Add direct conversations between two users
+
+  1. Changes
+    - Add `kind` column to rooms ('group' or 'direct'); a direct conversation
+      is a room with exactly two members, so it reuses messages, reactions,
+      uploads and realtime unchanged
+    - Add `can_access_room` helper and `start_direct_conversation` function
+
+  2. Security
+    - Direct rooms, their members and their messages are only visible to the
+      two participants
+    - Messages can only be inserted into rooms the author can access
+    - Room owner privileges (updating or deleting the room, moderating
+      messages) only apply to group rooms, so starting a conversation
+      grants no extra rights
+*/
+
+ALTER TABLE rooms
+ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'group'
+CHECK (kind IN ('group', 'direct'));
+
+-- Direct conversations are named after their participants; keep group rooms
+-- from claiming those names
+ALTER TABLE rooms
+ADD CONSTRAINT rooms_direct_name_check
+CHECK (kind = 'direct' OR name NOT LIKE 'dm:%');
+
+-- Security definer so policies on room_users can use it without recursion
+CREATE OR REPLACE FUNCTION can_access_room(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rooms
+    WHERE id = p_room_id
+    AND (
+      kind = 'group'
+      OR EXISTS (
+        SELECT 1 FROM room_users
+        WHERE room_users.room_id = p_room_id
+        AND room_users.user_id = auth.uid()
+      )
+    )
+  );
+$$;
+
+-- Rooms
+DROP POLICY IF EXISTS "Anyone can view rooms" ON rooms;
+DROP POLICY IF EXISTS "Owners can update their rooms" ON rooms;
+DROP POLICY IF EXISTS "Owners can delete their rooms" ON rooms;
+
+CREATE POLICY "Users can view group rooms and their direct conversations"
+  ON rooms
+  FOR SELECT
+  TO public
+  USING (can_access_room(id));
+
+CREATE POLICY "Owners can update their rooms"
+  ON rooms
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = owner_id AND kind = 'group')
+  WITH CHECK (auth.uid() = owner_id AND kind = 'group');
+
+-- Whoever started a direct conversation owns it, but it belongs to both
+CREATE POLICY "Owners can delete their rooms"
+  ON rooms
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = owner_id AND kind = 'group');
+
+-- Room members
+DROP POLICY IF EXISTS "Users can view room members" ON room_users;
+
+CREATE POLICY "Users can view members of rooms they can access"
+  ON room_users
+  FOR SELECT
+  TO authenticated
+  USING (can_access_room(room_id));
+
+-- Messages
+DROP POLICY IF EXISTS "Users can read messages in rooms they have access to" ON messages;
+DROP POLICY IF EXISTS "Users can insert messages in rooms they have access to" ON messages;
+DROP POLICY IF EXISTS "Authors and room owners can update messages" ON messages;
+DROP POLICY IF EXISTS "Authors and room owners can delete messages" ON messages;
+
+CREATE POLICY "Users can read messages in rooms they have access to"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (can_access_room(room_id));
+
+CREATE POLICY "Users can insert messages in rooms they have access to"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND can_access_room(room_id));
+
+CREATE POLICY "Authors and room owners can update messages"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = messages.room_id
+      AND rooms.owner_id = auth.uid()
+      AND rooms.kind = 'group'
+    )
+  );
+
+CREATE POLICY "Authors and room owners can delete messages"
+  ON messages
+  FOR DELETE
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = messages.room_id
+      AND rooms.owner_id = auth.uid()
+      AND rooms.kind = 'group'
+    )
+  );
+
+-- Reactions follow the visibility of their message
+DROP POLICY IF EXISTS "Users can view all reactions" ON message_reactions;
+
+CREATE POLICY "Users can view reactions on messages they can read"
+  ON message_reactions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_reactions.message_id
+    )
+  );
+
+-- Find or create the direct conversation between the caller and p_user_id
+CREATE OR REPLACE FUNCTION start_direct_conversation(p_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key text;
+  v_room_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot message yourself' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- One conversation per pair, keyed on the sorted user ids
+  v_key := 'dm:' || least(auth.uid(), p_user_id)::text || ':' || greatest(auth.uid(), p_user_id)::text;
+
+  INSERT INTO rooms (name, kind, max_users, owner_id)
+  VALUES (v_key, 'direct', 2, auth.uid())
+  ON CONFLICT (name) DO NOTHING
+  RETURNING id INTO v_room_id;
+
+  IF v_room_id IS NULL THEN
+    SELECT id INTO v_room_id FROM rooms WHERE name = v_key;
+  END IF;
+
+  -- Re-add either participant if they left the conversation earlier
+  INSERT INTO room_users (room_id, user_id)
+  VALUES (v_room_id, auth.uid()), (v_room_id, p_user_id)
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+
+  RETURN v_room_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION start_direct_conversation(uuid) FROM public, anon;
+GRANT EXECUTE ON FUNCTION start_direct_conversation(uuid) TO authenticated;
@@ -0,0 +1,340 @@
+/*
+  # Add room roles, kicks and bans
+
+  1. New Tables
+    - `room_bans`
+      - `room_id` (uuid, references rooms)
+      - `user_id` (uuid, references auth.users)
+      - `banned_by` (uuid, references auth.users)
+      - `reason` (text)
+      - `expires_at` (timestamp, null for a permanent ban)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add `role` column to room_users ('owner', 'moderator' or 'member')
+      and backfill owners, adding missing owner memberships
+    - Add `is_room_member`, `room_role` and `is_banned` helpers
+    - Add `set_member_role`, `kick_member`, `ban_member` and `unban_member`
+    - Recreate `create_room` and `join_room` to set roles and refuse
+      banned users
+    - Add room_users to the realtime publication so removed users are
+      notified
+
+  3. Security
+    - Enable RLS on room_bans; bans are visible to the room's owner and
+      moderators and to the banned user, and only written through functions
+    - Only current, unbanned members may insert messages
+*/
+
+ALTER TABLE room_users
+ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'member'
+CHECK (role IN ('owner', 'moderator', 'member'));
+
+INSERT INTO room_users (room_id, user_id)
+SELECT id, owner_id FROM rooms WHERE kind = 'group'
+ON CONFLICT (room_id, user_id) DO NOTHING;
+
+UPDATE room_users
+SET role = 'owner'
+FROM rooms
+WHERE rooms.id = room_users.room_id
+AND rooms.owner_id = room_users.user_id
+AND rooms.kind = 'group';
+
+CREATE TABLE IF NOT EXISTS room_bans (
+  room_id uuid REFERENCES rooms ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  banned_by uuid REFERENCES auth.users ON DELETE SET NULL,
+  reason text NOT NULL DEFAULT '',
+  expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (room_id, user_id)
+);
+
+ALTER TABLE room_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_room_member(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_users
+    WHERE room_id = p_room_id
+    AND user_id = auth.uid()
+  );
+$$;
+
+-- The caller's role in a room, or NULL if they are not a member
+CREATE OR REPLACE FUNCTION room_role(p_room_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM room_users
+  WHERE room_id = p_room_id
+  AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_banned(p_room_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_bans
+    WHERE room_id = p_room_id
+    AND user_id = p_user_id
+    AND (expires_at IS NULL OR expires_at > now())
+  );
+$$;
+
+CREATE POLICY "Moderators and banned users can view bans"
+  ON room_bans
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR room_role(room_id) IN ('owner', 'moderator')
+  );
+
+DROP POLICY IF EXISTS "Users can insert messages in rooms they have access to" ON messages;
+
+CREATE POLICY "Members who are not banned can insert messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND is_room_member(room_id)
+    AND NOT is_banned(room_id, auth.uid())
+  );
+
+-- Raise unless the caller outranks p_user_id in the room
+CREATE OR REPLACE FUNCTION assert_outranks(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rank constant jsonb := '{"owner": 3, "moderator": 2, "member": 1}';
+  v_caller_role text := room_role(p_room_id);
+  v_target_role text;
+BEGIN
+  IF v_caller_role IS NULL OR v_caller_role = 'member' THEN
+    RAISE EXCEPTION 'Only owners and moderators can do this' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT role INTO v_target_role FROM room_users
+  WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  IF (v_rank ->> v_caller_role)::int <= coalesce((v_rank ->> v_target_role)::int, 0) THEN
+    RAISE EXCEPTION 'You cannot moderate this user' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Promote a member to moderator or demote a moderator; owners only
+CREATE OR REPLACE FUNCTION set_member_role(
+  p_room_id uuid,
+  p_user_id uuid,
+  p_role text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF room_role(p_room_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the room owner can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_role NOT IN ('moderator', 'member') THEN
+    RAISE EXCEPTION 'Invalid role' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE room_users
+  SET role = p_role
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id
+  AND role <> 'owner';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION kick_member(
+  p_room_id uuid,
+  p_user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_outranks(p_room_id, p_user_id);
+
+  DELETE FROM room_users
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+END;
+$$;
+
+-- Ban for p_duration, or permanently when p_duration is NULL
+CREATE OR REPLACE FUNCTION ban_member(
+  p_room_id uuid,
+  p_user_id uuid,
+  p_duration interval,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_outranks(p_room_id, p_user_id);
+
+  INSERT INTO room_bans (room_id, user_id, banned_by, reason, expires_at)
+  VALUES (p_room_id, p_user_id, auth.uid(), coalesce(p_reason, ''), now() + p_duration)
+  ON CONFLICT (room_id, user_id) DO UPDATE
+  SET banned_by = EXCLUDED.banned_by,
+      reason = EXCLUDED.reason,
+      expires_at = EXCLUDED.expires_at,
+      created_at = now();
+
+  DELETE FROM room_users
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unban_member(
+  p_room_id uuid,
+  p_user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(room_role(p_room_id), 'member') = 'member' THEN
+    RAISE EXCEPTION 'Only owners and moderators can do this' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM room_bans
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_room(
+  p_name text,
+  p_password text,
+  p_max_users integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_room_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF coalesce(trim(p_password), '') = '' THEN
+    RAISE EXCEPTION 'Room password is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO rooms (name, max_users, owner_id)
+  VALUES (p_name, p_max_users, auth.uid())
+  RETURNING id INTO v_room_id;
+
+  INSERT INTO room_passwords (room_id, password_hash)
+  VALUES (v_room_id, crypt(p_password, gen_salt('bf')));
+
+  INSERT INTO room_users (room_id, user_id, role)
+  VALUES (v_room_id, auth.uid(), 'owner');
+
+  RETURN v_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION join_room(
+  p_room_id uuid,
+  p_password text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+  v_hash text;
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the room so concurrent joins cannot both take the last seat
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id AND kind = 'group' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF is_banned(p_room_id, auth.uid()) THEN
+    RAISE EXCEPTION 'You are banned from this room' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT password_hash INTO v_hash FROM room_passwords WHERE room_id = p_room_id;
+  IF v_hash IS NULL OR crypt(p_password, v_hash) <> v_hash THEN
+    RAISE EXCEPTION 'Incorrect password' USING ERRCODE = '28P01';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM room_users WHERE room_id = p_room_id AND user_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_count FROM room_users WHERE room_id = p_room_id;
+  IF v_count >= v_room.max_users THEN
+    RAISE EXCEPTION 'Room is full. Please try another room.' USING ERRCODE = '53300';
+  END IF;
+
+  INSERT INTO room_users (room_id, user_id)
+  VALUES (p_room_id, auth.uid());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assert_outranks(uuid, uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_member_role(uuid, uuid, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION kick_member(uuid, uuid) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION ban_member(uuid, uuid, interval, text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION unban_member(uuid, uuid) FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION set_member_role(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION kick_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION ban_member(uuid, uuid, interval, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION unban_member(uuid, uuid) TO authenticated;
+
+-- Enable real-time so removed members leave the room immediately
+ALTER PUBLICATION supabase_realtime ADD TABLE room_users;
@@ -0,0 +1,178 @@
+/*
+  # Add expiring room invite links
+
+  1. New Tables
+    - `room_invites`
+      - `id` (uuid, primary key)
+      - `room_id` (uuid, references rooms)
+      - `token` (text, unique, the secret part of the link)
+      - `created_by` (uuid, references auth.users)
+      - `expires_at` (timestamp, null for links that never expire)
+      - `max_uses` (integer, null for unlimited uses)
+      - `use_count` (integer)
+      - `revoked_at` (timestamp)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add `create_room_invite`, `revoke_room_invite` and `redeem_room_invite`
+
+  3. Security
+    - Enable RLS on room_invites; invites are visible to the room's owner
+      and moderators and only written through functions
+    - Redeeming an invite skips the room password but still refuses
+      banned users and full rooms
+*/
+
+CREATE TABLE IF NOT EXISTS room_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES rooms ON DELETE CASCADE NOT NULL,
+  token text UNIQUE NOT NULL DEFAULT encode(extensions.gen_random_bytes(18), 'hex'),
+  created_by uuid REFERENCES auth.users ON DELETE SET NULL,
+  expires_at timestamptz,
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS room_invites_room_id_idx ON room_invites (room_id);
+
+ALTER TABLE room_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view room invites"
+  ON room_invites
+  FOR SELECT
+  TO authenticated
+  USING (room_role(room_id) IN ('owner', 'moderator'));
+
+-- Expire after p_expires_in and allow p_max_uses redemptions; NULL means no limit
+CREATE OR REPLACE FUNCTION create_room_invite(
+  p_room_id uuid,
+  p_expires_in interval,
+  p_max_uses integer
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  IF coalesce(room_role(p_room_id), 'member') = 'member' THEN
+    RAISE EXCEPTION 'Only owners and moderators can create invites' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND kind = 'group') THEN
+    RAISE EXCEPTION 'Room not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_max_uses IS NOT NULL AND p_max_uses < 1 THEN
+    RAISE EXCEPTION 'Maximum uses must be at least 1' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO room_invites (room_id, created_by, expires_at, max_uses)
+  VALUES (p_room_id, auth.uid(), now() + p_expires_in, p_max_uses)
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_room_invite(p_invite_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id uuid;
+BEGIN
+  SELECT room_id INTO v_room_id FROM room_invites WHERE id = p_invite_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF coalesce(room_role(v_room_id), 'member') = 'member' THEN
+    RAISE EXCEPTION 'Only owners and moderators can revoke invites' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE room_invites
+  SET revoked_at = now()
+  WHERE id = p_invite_id
+  AND revoked_at IS NULL;
+END;
+$$;
+
+-- Join the room behind p_token without its password; returns the room id
+CREATE OR REPLACE FUNCTION redeem_room_invite(p_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite room_invites%ROWTYPE;
+  v_room rooms%ROWTYPE;
+  v_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_invite FROM room_invites WHERE token = p_token;
+  IF NOT FOUND OR v_invite.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite link is invalid or has been revoked' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the room first, as join_room does, so concurrent redemptions
+  -- cannot both take the last seat or the last use
+  SELECT * INTO v_room FROM rooms WHERE id = v_invite.room_id AND kind = 'group' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_invite FROM room_invites WHERE id = v_invite.id FOR UPDATE;
+
+  IF is_banned(v_room.id, auth.uid()) THEN
+    RAISE EXCEPTION 'You are banned from this room' USING ERRCODE = '42501';
+  END IF;
+
+  -- Existing members just land in the room without using up the invite
+  IF EXISTS (
+    SELECT 1 FROM room_users WHERE room_id = v_room.id AND user_id = auth.uid()
+  ) THEN
+    RETURN v_room.id;
+  END IF;
+
+  IF v_invite.expires_at IS NOT NULL AND v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite link has expired' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses THEN
+    RAISE EXCEPTION 'This invite link has reached its maximum uses' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT count(*) INTO v_count FROM room_users WHERE room_id = v_room.id;
+  IF v_count >= v_room.max_users THEN
+    RAISE EXCEPTION 'Room is full. Please try another room.' USING ERRCODE = '53300';
+  END IF;
+
+  INSERT INTO room_users (room_id, user_id)
+  VALUES (v_room.id, auth.uid());
+
+  UPDATE room_invites
+  SET use_count = use_count + 1
+  WHERE id = v_invite.id;
+
+  RETURN v_room.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_room_invite(uuid, interval, integer) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION revoke_room_invite(uuid) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION redeem_room_invite(text) FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION create_room_invite(uuid, interval, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_room_invite(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_room_invite(text) TO authenticated;
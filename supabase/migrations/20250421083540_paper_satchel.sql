@@ -0,0 +1,204 @@
+/*
+  # Add file attachments in private storage
+
+  1. Changes
+    - Allow a 'file' message type
+    - Add `file_path`, `file_name`, `file_size` and `file_mime` columns to
+      messages for attachments kept in the private bucket
+    - Recreate the message update guard so attachment columns cannot be
+      rewritten and are cleared when a message is deleted
+    - Require `file_path` to sit in the message's room and author folder
+    - New messages can no longer set `image_url`, so they cannot point at
+      external URLs; images are sent as attachments instead
+
+  2. Storage Setup
+    - Creates a private 'message-files' bucket with a 25 MB per-file limit
+      and an allow-list of MIME types; objects live under
+      `<room_id>/<user_id>/`
+    - Makes the legacy 'message-images' bucket private and stops uploads
+      to it; images already sent are served through signed URLs
+
+  3. Security
+    - Only members of the room in the first path segment can read its files,
+      which the client does through signed URLs
+    - Members who are not banned can upload into their own folder of a room
+    - A legacy image can only be read by members of the room of a message
+      that links to it
+*/
+
+ALTER TABLE messages
+DROP CONSTRAINT IF EXISTS messages_message_type_check;
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_message_type_check
+CHECK (message_type IN ('text', 'image', 'file'));
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS file_path text,
+ADD COLUMN IF NOT EXISTS file_name text,
+ADD COLUMN IF NOT EXISTS file_size bigint CHECK (file_size IS NULL OR file_size >= 0),
+ADD COLUMN IF NOT EXISTS file_mime text;
+
+-- A message may only point at a file its author uploaded to the same room
+ALTER TABLE messages
+ADD CONSTRAINT messages_file_path_check
+CHECK (
+  file_path IS NULL
+  OR (
+    split_part(file_path, '/', 1) = room_id::text
+    AND split_part(file_path, '/', 2) = user_id::text
+  )
+);
+
+DROP POLICY IF EXISTS "Members who are not banned can insert messages" ON messages;
+
+CREATE POLICY "Members who are not banned can insert messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND is_room_member(room_id)
+    AND NOT is_banned(room_id, auth.uid())
+    AND image_url IS NULL
+  );
+
+CREATE OR REPLACE FUNCTION guard_message_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id <> OLD.user_id
+    OR NEW.room_id <> OLD.room_id
+    OR NEW.created_at <> OLD.created_at
+    OR NEW.message_type <> OLD.message_type THEN
+    RAISE EXCEPTION 'Only the content of a message can be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.image_url := NULL;
+    NEW.file_path := NULL;
+    NEW.file_name := NULL;
+    NEW.file_size := NULL;
+    NEW.file_mime := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.file_path IS DISTINCT FROM OLD.file_path
+    OR NEW.file_name IS DISTINCT FROM OLD.file_name
+    OR NEW.file_size IS DISTINCT FROM OLD.file_size
+    OR NEW.file_mime IS DISTINCT FROM OLD.file_mime THEN
+    RAISE EXCEPTION 'Attachments cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    -- Room owners may only delete other people's messages, not rewrite them
+    IF auth.uid() IS DISTINCT FROM OLD.user_id THEN
+      RAISE EXCEPTION 'Only the author can edit a message' USING ERRCODE = '42501';
+    END IF;
+
+    IF trim(NEW.content) = '' THEN
+      RAISE EXCEPTION 'Message cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-files',
+  'message-files',
+  false,
+  26214400,
+  ARRAY[
+    'image/*',
+    'text/plain',
+    'text/csv',
+    'application/pdf',
+    'application/zip',
+    'application/x-7z-compressed',
+    'application/gzip',
+    'application/x-tar',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  ]
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Compare as text so a malformed path is simply denied instead of erroring
+CREATE POLICY "Room members can read message files"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'message-files'
+  AND EXISTS (
+    SELECT 1 FROM public.room_users
+    WHERE room_users.room_id::text = (storage.foldername(name))[1]
+    AND room_users.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Room members can upload message files"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'message-files'
+  AND (storage.foldername(name))[2] = auth.uid()::text
+  AND EXISTS (
+    SELECT 1 FROM public.room_users
+    WHERE room_users.room_id::text = (storage.foldername(name))[1]
+    AND room_users.user_id = auth.uid()
+    AND NOT public.is_banned(room_users.room_id, auth.uid())
+  )
+);
+
+-- Images sent before this migration: the bucket stops being public and
+-- accepts no new uploads
+UPDATE storage.buckets SET public = false WHERE id = 'message-images';
+
+DROP POLICY IF EXISTS "Allow authenticated users to upload images" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public read access to images" ON storage.objects;
+
+-- The object a legacy message's public image URL points at
+CREATE OR REPLACE FUNCTION message_image_path(p_image_url text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT substring(p_image_url FROM '/object/public/message-images/(.+)$');
+$$;
+
+CREATE INDEX IF NOT EXISTS messages_image_path_idx
+ON messages (message_image_path(image_url))
+WHERE image_url IS NOT NULL;
+
+CREATE POLICY "Room members can read legacy message images"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'message-images'
+  AND EXISTS (
+    SELECT 1 FROM public.messages
+    JOIN public.room_users ON room_users.room_id = messages.room_id
+    WHERE public.message_image_path(messages.image_url) = storage.objects.name
+    AND messages.image_url IS NOT NULL
+    AND room_users.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,98 @@
+/*
+  # Add image thumbnails and dimensions
+
+  1. Changes
+    - Add `thumbnail_path`, `image_width`, `image_height` and
+      `blur_placeholder` columns to messages so images can be laid out
+      before they load
+    - Recreate the message update guard to cover the new columns
+
+  2. Security
+    - Require `thumbnail_path` to sit in the message's room and author
+      folder, like `file_path`
+    - Require `blur_placeholder` to be a `data:image/` URL
+*/
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS thumbnail_path text,
+ADD COLUMN IF NOT EXISTS image_width integer CHECK (image_width IS NULL OR image_width > 0),
+ADD COLUMN IF NOT EXISTS image_height integer CHECK (image_height IS NULL OR image_height > 0),
+ADD COLUMN IF NOT EXISTS blur_placeholder text CHECK (length(blur_placeholder) <= 4096);
+
+-- The placeholder is drawn as an image source for every reader, so it must
+-- be inline data rather than a URL their browsers would fetch
+ALTER TABLE messages
+ADD CONSTRAINT messages_blur_placeholder_check
+CHECK (blur_placeholder IS NULL OR blur_placeholder LIKE 'data:image/%');
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_thumbnail_path_check
+CHECK (
+  thumbnail_path IS NULL
+  OR (
+    split_part(thumbnail_path, '/', 1) = room_id::text
+    AND split_part(thumbnail_path, '/', 2) = user_id::text
+  )
+);
+
+CREATE OR REPLACE FUNCTION guard_message_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id <> OLD.user_id
+    OR NEW.room_id <> OLD.room_id
+    OR NEW.created_at <> OLD.created_at
+    OR NEW.message_type <> OLD.message_type THEN
+    RAISE EXCEPTION 'Only the content of a message can be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.image_url := NULL;
+    NEW.file_path := NULL;
+    NEW.file_name := NULL;
+    NEW.file_size := NULL;
+    NEW.file_mime := NULL;
+    NEW.thumbnail_path := NULL;
+    NEW.image_width := NULL;
+    NEW.image_height := NULL;
+    NEW.blur_placeholder := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.file_path IS DISTINCT FROM OLD.file_path
+    OR NEW.file_name IS DISTINCT FROM OLD.file_name
+    OR NEW.file_size IS DISTINCT FROM OLD.file_size
+    OR NEW.file_mime IS DISTINCT FROM OLD.file_mime
+    OR NEW.thumbnail_path IS DISTINCT FROM OLD.thumbnail_path
+    OR NEW.image_width IS DISTINCT FROM OLD.image_width
+    OR NEW.image_height IS DISTINCT FROM OLD.image_height
+    OR NEW.blur_placeholder IS DISTINCT FROM OLD.blur_placeholder THEN
+    RAISE EXCEPTION 'Attachments cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    -- Room owners may only delete other people's messages, not rewrite them
+    IF auth.uid() IS DISTINCT FROM OLD.user_id THEN
+      RAISE EXCEPTION 'Only the author can edit a message' USING ERRCODE = '42501';
+    END IF;
+
+    IF trim(NEW.content) = '' THEN
+      RAISE EXCEPTION 'Message cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
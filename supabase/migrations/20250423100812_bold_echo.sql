@@ -0,0 +1,139 @@
+/*
+  # Add @mentions to messages
+
+  1. Changes
+    - Add `mentions` column to messages holding the ids of mentioned users;
+      the content refers to them as `<@user_id>` so renames do not break them
+    - Add a trigger that keeps only mentions of the room's members
+    - Recreate the message update guard so only the author can change
+      mentions and deleting a message clears them
+    - Recreate `get_unread_counts` to also return unread mention counts
+
+  2. Security
+    - Mentions are filtered server-side, so a message cannot notify users
+      outside its room
+*/
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS mentions uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS messages_mentions_idx ON messages USING gin (mentions);
+
+CREATE OR REPLACE FUNCTION filter_message_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.mentions := ARRAY(
+    SELECT DISTINCT mentioned
+    FROM unnest(NEW.mentions) AS mentioned
+    WHERE EXISTS (
+      SELECT 1 FROM room_users
+      WHERE room_users.room_id = NEW.room_id
+      AND room_users.user_id = mentioned
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER filter_message_mentions
+  BEFORE INSERT OR UPDATE OF mentions ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION filter_message_mentions();
+
+CREATE OR REPLACE FUNCTION guard_message_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.user_id <> OLD.user_id
+    OR NEW.room_id <> OLD.room_id
+    OR NEW.created_at <> OLD.created_at
+    OR NEW.message_type <> OLD.message_type THEN
+    RAISE EXCEPTION 'Only the content of a message can be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.mentions := '{}';
+    NEW.image_url := NULL;
+    NEW.file_path := NULL;
+    NEW.file_name := NULL;
+    NEW.file_size := NULL;
+    NEW.file_mime := NULL;
+    NEW.thumbnail_path := NULL;
+    NEW.image_width := NULL;
+    NEW.image_height := NULL;
+    NEW.blur_placeholder := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.file_path IS DISTINCT FROM OLD.file_path
+    OR NEW.file_name IS DISTINCT FROM OLD.file_name
+    OR NEW.file_size IS DISTINCT FROM OLD.file_size
+    OR NEW.file_mime IS DISTINCT FROM OLD.file_mime
+    OR NEW.thumbnail_path IS DISTINCT FROM OLD.thumbnail_path
+    OR NEW.image_width IS DISTINCT FROM OLD.image_width
+    OR NEW.image_height IS DISTINCT FROM OLD.image_height
+    OR NEW.blur_placeholder IS DISTINCT FROM OLD.blur_placeholder THEN
+    RAISE EXCEPTION 'Attachments cannot be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.mentions IS DISTINCT FROM OLD.mentions
+    OR NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    -- Room owners may only delete other people's messages, not rewrite them
+    IF auth.uid() IS DISTINCT FROM OLD.user_id THEN
+      RAISE EXCEPTION 'Only the author can edit a message' USING ERRCODE = '42501';
+    END IF;
+
+    IF trim(NEW.content) = '' THEN
+      RAISE EXCEPTION 'Message cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS get_unread_counts();
+
+-- Count messages from other users newer than the caller's read marker,
+-- and how many of those mention the caller
+CREATE FUNCTION get_unread_counts()
+RETURNS TABLE (room_id uuid, unread_count integer, mention_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ru.room_id,
+    count(m.id)::integer,
+    count(m.id) FILTER (WHERE ru.user_id = ANY (m.mentions))::integer
+  FROM room_users ru
+  LEFT JOIN messages m
+    ON m.room_id = ru.room_id
+    AND m.created_at > ru.last_read_at
+    AND m.user_id <> ru.user_id
+    AND m.deleted_at IS NULL
+  WHERE ru.user_id = auth.uid()
+  GROUP BY ru.room_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_unread_counts() FROM public, anon;
+GRANT EXECUTE ON FUNCTION get_unread_counts() TO authenticated;
@@ -0,0 +1,99 @@
+/*
+  # Add notification preferences
+
+  1. New Tables
+    - `user_settings`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `sound_enabled` (boolean)
+      - `dnd_enabled` (boolean)
+      - `dnd_start` (time, local time do-not-disturb starts)
+      - `dnd_end` (time, local time do-not-disturb ends)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Add `notification_level` column to room_users ('all', 'mentions' or
+      'muted')
+    - Add `set_notification_level` to change the caller's level for a room
+
+  3. Security
+    - Enable RLS on user_settings; users can only read and write their own
+    - `set_notification_level` only updates the caller's own membership
+*/
+
+ALTER TABLE room_users
+ADD COLUMN IF NOT EXISTS notification_level text NOT NULL DEFAULT 'all'
+CHECK (notification_level IN ('all', 'mentions', 'muted'));
+
+CREATE OR REPLACE FUNCTION set_notification_level(
+  p_room_id uuid,
+  p_level text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_level NOT IN ('all', 'mentions', 'muted') THEN
+    RAISE EXCEPTION 'Invalid notification level' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE room_users
+  SET notification_level = p_level
+  WHERE room_id = p_room_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a member of this room' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_notification_level(uuid, text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION set_notification_level(uuid, text) TO authenticated;
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  sound_enabled boolean NOT NULL DEFAULT true,
+  dnd_enabled boolean NOT NULL DEFAULT false,
+  dnd_start time NOT NULL DEFAULT '22:00',
+  dnd_end time NOT NULL DEFAULT '08:00',
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings"
+  ON user_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own settings"
+  ON user_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+  ON user_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION touch_user_settings_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_user_settings_updated_at
+  BEFORE UPDATE ON user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_user_settings_updated_at();
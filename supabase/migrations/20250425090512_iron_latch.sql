@@ -0,0 +1,80 @@
+/*
+  # Verify the current password before account changes
+
+  1. New Tables
+    - `password_check_attempts`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `failures` (integer, failed checks since the last success or lockout)
+      - `locked_until` (timestamp, checks are refused until then)
+
+  2. Changes
+    - Add `verify_password` so the client can confirm the signed-in user's
+      current password before changing their email or password
+
+  3. Security
+    - Enable RLS on password_check_attempts with no policies, so only
+      `verify_password` can read or write it
+    - Five wrong passwords lock checks for 15 minutes, so a hijacked session
+      cannot be used to guess the password
+*/
+
+CREATE TABLE IF NOT EXISTS password_check_attempts (
+  user_id uuid PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  failures integer NOT NULL DEFAULT 0,
+  locked_until timestamptz
+);
+
+ALTER TABLE password_check_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Returns whether p_password is the caller's password. Failures are
+-- recorded instead of raised so the attempt counter is not rolled back.
+CREATE OR REPLACE FUNCTION verify_password(p_password text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_hash text;
+  v_attempts password_check_attempts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_attempts
+  FROM password_check_attempts
+  WHERE user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_attempts.locked_until > now() THEN
+    RAISE EXCEPTION 'Too many incorrect passwords. Try again later.' USING ERRCODE = '54000';
+  END IF;
+
+  SELECT encrypted_password INTO v_hash FROM auth.users WHERE id = auth.uid();
+  IF v_hash IS NULL OR v_hash = '' THEN
+    RAISE EXCEPTION 'This account does not have a password' USING ERRCODE = '22023';
+  END IF;
+
+  IF crypt(p_password, v_hash) = v_hash THEN
+    DELETE FROM password_check_attempts WHERE user_id = auth.uid();
+    RETURN true;
+  END IF;
+
+  INSERT INTO password_check_attempts (user_id, failures)
+  VALUES (auth.uid(), 1)
+  ON CONFLICT (user_id) DO UPDATE
+  SET
+    failures = CASE WHEN password_check_attempts.failures + 1 >= 5 THEN 0
+                    ELSE password_check_attempts.failures + 1 END,
+    locked_until = CASE WHEN password_check_attempts.failures + 1 >= 5
+                        THEN now() + interval '15 minutes'
+                        ELSE password_check_attempts.locked_until END;
+
+  RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION verify_password(text) FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION verify_password(text) TO authenticated;
@@ -0,0 +1,353 @@
+/*
+  # Two-factor authentication
+
+  1. New Tables
+    - `mfa_recovery_codes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `code_hash` (text, bcrypt hash of the normalized code)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - Add `require_mfa` column to rooms so owners can require a verified
+      second factor (AAL2) to manage or delete the room
+    - Add `generate_recovery_codes`, `redeem_recovery_code` and
+      `discard_recovery_codes` for TOTP recovery codes
+    - Add `is_aal2` and `assert_room_mfa` helpers
+
+  3. Security
+    - Enable RLS on mfa_recovery_codes with no policies, so codes are only
+      read and written by the functions below
+    - Recovery codes can only be generated or discarded at AAL2. Redeeming
+      one removes the user's TOTP factors so they can sign in and enroll
+      again; every code is single use because all are deleted together
+    - Updating or deleting a room that requires MFA needs AAL2, and so do
+      the role, ban, invite and password functions for that room
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS mfa_recovery_codes_user_id_idx
+ON mfa_recovery_codes (user_id);
+
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE rooms
+ADD COLUMN IF NOT EXISTS require_mfa boolean NOT NULL DEFAULT false;
+
+-- Whether the caller's session has passed a second factor
+CREATE OR REPLACE FUNCTION is_aal2()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2';
+$$;
+
+CREATE OR REPLACE FUNCTION assert_room_mfa(p_room_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_aal2() AND EXISTS (
+    SELECT 1 FROM rooms WHERE id = p_room_id AND require_mfa
+  ) THEN
+    RAISE EXCEPTION 'This room requires two-factor authentication' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+-- Replace the caller's recovery codes with ten new ones. Codes are shown
+-- once as `xxxxx-xxxxx` and stored lowercased without the dash.
+CREATE OR REPLACE FUNCTION generate_recovery_codes()
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_code text;
+  v_codes text[] := '{}';
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT is_aal2() THEN
+    RAISE EXCEPTION 'Verify a code from your authenticator app first' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    v_code := encode(gen_random_bytes(5), 'hex');
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), crypt(v_code, gen_salt('bf')));
+    v_codes := v_codes || (substr(v_code, 1, 5) || '-' || substr(v_code, 6));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$;
+
+-- Sign-in fallback for a lost authenticator. A matching code removes the
+-- caller's TOTP factors, so after refreshing the session they are at AAL1
+-- with nothing left to verify.
+CREATE OR REPLACE FUNCTION redeem_recovery_code(p_code text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_code text := lower(regexp_replace(coalesce(p_code, ''), '[^0-9a-fA-F]', '', 'g'));
+  v_hash text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  FOR v_hash IN
+    SELECT code_hash FROM mfa_recovery_codes WHERE user_id = auth.uid()
+  LOOP
+    IF crypt(v_code, v_hash) = v_hash THEN
+      DELETE FROM auth.mfa_factors
+      WHERE user_id = auth.uid()
+      AND factor_type = 'totp';
+
+      DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+      RETURN true;
+    END IF;
+  END LOOP;
+
+  RETURN false;
+END;
+$$;
+
+-- Called after the last factor is removed from Profile Settings
+CREATE OR REPLACE FUNCTION discard_recovery_codes()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_aal2() THEN
+    RAISE EXCEPTION 'Verify a code from your authenticator app first' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+END;
+$$;
+
+-- Rooms
+DROP POLICY IF EXISTS "Owners can update their rooms" ON rooms;
+DROP POLICY IF EXISTS "Owners can delete their rooms" ON rooms;
+
+-- USING checks the current row and WITH CHECK the new one, so turning
+-- require_mfa on or off both need AAL2
+CREATE POLICY "Owners can update their rooms"
+  ON rooms
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = owner_id AND kind = 'group' AND (NOT require_mfa OR is_aal2()))
+  WITH CHECK (auth.uid() = owner_id AND kind = 'group' AND (NOT require_mfa OR is_aal2()));
+
+CREATE POLICY "Owners can delete their rooms"
+  ON rooms
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = owner_id AND kind = 'group' AND (NOT require_mfa OR is_aal2()));
+
+-- Room management functions, unchanged apart from the MFA check
+CREATE OR REPLACE FUNCTION set_room_password(
+  p_room_id uuid,
+  p_password text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF coalesce(trim(p_password), '') = '' THEN
+    RAISE EXCEPTION 'Room password is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM rooms WHERE id = p_room_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the room owner can change the password' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM assert_room_mfa(p_room_id);
+
+  INSERT INTO room_passwords (room_id, password_hash)
+  VALUES (p_room_id, crypt(p_password, gen_salt('bf')))
+  ON CONFLICT (room_id) DO UPDATE SET password_hash = EXCLUDED.password_hash;
+END;
+$$;
+
+-- Used by kick_member and ban_member
+CREATE OR REPLACE FUNCTION assert_outranks(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rank constant jsonb := '{"owner": 3, "moderator": 2, "member": 1}';
+  v_caller_role text := room_role(p_room_id);
+  v_target_role text;
+BEGIN
+  IF v_caller_role IS NULL OR v_caller_role = 'member' THEN
+    RAISE EXCEPTION 'Only owners and moderators can do this' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM assert_room_mfa(p_room_id);
+
+  SELECT role INTO v_target_role FROM room_users
+  WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  IF (v_rank ->> v_caller_role)::int <= coalesce((v_rank ->> v_target_role)::int, 0) THEN
+    RAISE EXCEPTION 'You cannot moderate this user' USING ERRCODE = '42501';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_member_role(
+  p_room_id uuid,
+  p_user_id uuid,
+  p_role text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF room_role(p_room_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the room owner can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM assert_room_mfa(p_room_id);
+
+  IF p_role NOT IN ('moderator', 'member') THEN
+    RAISE EXCEPTION 'Invalid role' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE room_users
+  SET role = p_role
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id
+  AND role <> 'owner';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unban_member(
+  p_room_id uuid,
+  p_user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(room_role(p_room_id), 'member') = 'member' THEN
+    RAISE EXCEPTION 'Only owners and moderators can do this' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM assert_room_mfa(p_room_id);
+
+  DELETE FROM room_bans
+  WHERE room_id = p_room_id
+  AND user_id = p_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_room_invite(
+  p_room_id uuid,
+  p_expires_in interval,
+  p_max_uses integer
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  IF coalesce(room_role(p_room_id), 'member') = 'member' THEN
+    RAISE EXCEPTION 'Only owners and moderators can create invites' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM assert_room_mfa(p_room_id);
+
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id AND kind = 'group') THEN
+    RAISE EXCEPTION 'Room not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_max_uses IS NOT NULL AND p_max_uses < 1 THEN
+    RAISE EXCEPTION 'Maximum uses must be at least 1' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO room_invites (room_id, created_by, expires_at, max_uses)
+  VALUES (p_room_id, auth.uid(), now() + p_expires_in, p_max_uses)
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_room_invite(p_invite_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room_id uuid;
+BEGIN
+  SELECT room_id INTO v_room_id FROM room_invites WHERE id = p_invite_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF coalesce(room_role(v_room_id), 'member') = 'member' THEN
+    RAISE EXCEPTION 'Only owners and moderators can revoke invites' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM assert_room_mfa(v_room_id);
+
+  UPDATE room_invites
+  SET revoked_at = now()
+  WHERE id = p_invite_id
+  AND revoked_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assert_room_mfa(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_recovery_codes() FROM public, anon;
+REVOKE EXECUTE ON FUNCTION redeem_recovery_code(text) FROM public, anon;
+REVOKE EXECUTE ON FUNCTION discard_recovery_codes() FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION generate_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_recovery_code(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION discard_recovery_codes() TO authenticated;
@@ -0,0 +1,136 @@
+/*
+  # Delete rooms atomically and clean up their files
+
+  1. New Tables
+    - `storage_cleanup_queue`
+      - `id` (bigint, primary key)
+      - `bucket_id` (text, storage bucket)
+      - `object_name` (text, path inside the bucket)
+      - `queued_at` (timestamp)
+      - `attempts` (integer, failed removal attempts)
+      - `last_error` (text)
+
+  2. Changes
+    - Add `delete_room`, which checks ownership and deletes a room with its
+      members, messages, reactions, invites and bans in one transaction
+    - Queue a message's file, thumbnail or legacy image when the message is
+      deleted, whether soft-deleted by its author or removed with its room
+    - The `storage-cleanup` edge function removes queued objects from
+      storage, since objects cannot be deleted safely from SQL
+
+  3. Security
+    - Enable RLS on storage_cleanup_queue with no policies; it is written by
+      the functions below and drained with the service role
+    - `delete_room` requires the caller to own the room, and AAL2 when the
+      room requires MFA
+    - Drop the "Owners can delete their rooms" policy, so `delete_room` is
+      the only way to delete a room
+*/
+
+CREATE TABLE IF NOT EXISTS storage_cleanup_queue (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  bucket_id text NOT NULL,
+  object_name text NOT NULL,
+  queued_at timestamptz NOT NULL DEFAULT now(),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  UNIQUE (bucket_id, object_name)
+);
+
+ALTER TABLE storage_cleanup_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION queue_storage_cleanup(p_bucket_id text, p_object_name text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO storage_cleanup_queue (bucket_id, object_name)
+  SELECT p_bucket_id, p_object_name
+  WHERE coalesce(p_object_name, '') <> ''
+  ON CONFLICT (bucket_id, object_name) DO NOTHING;
+$$;
+
+-- Runs after soft deletes (which clear the file columns) and hard deletes,
+-- including the cascade from deleting a room
+CREATE OR REPLACE FUNCTION queue_message_files()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (OLD.deleted_at IS NOT NULL OR NEW.deleted_at IS NULL) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM queue_storage_cleanup('message-files', OLD.file_path);
+  PERFORM queue_storage_cleanup('message-files', OLD.thumbnail_path);
+  -- Images sent before attachments were private live in the public bucket
+  PERFORM queue_storage_cleanup(
+    'message-images',
+    substring(OLD.image_url FROM '/object/public/message-images/(.+)$')
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_message_files_on_delete ON messages;
+CREATE TRIGGER queue_message_files_on_delete
+  AFTER DELETE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_message_files();
+
+DROP TRIGGER IF EXISTS queue_message_files_on_soft_delete ON messages;
+CREATE TRIGGER queue_message_files_on_soft_delete
+  AFTER UPDATE OF deleted_at ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_message_files();
+
+CREATE OR REPLACE FUNCTION delete_room(p_room_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_room rooms%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the room so nobody joins or posts while it is being deleted
+  SELECT * INTO v_room FROM rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_room.owner_id IS DISTINCT FROM auth.uid() OR v_room.kind <> 'group' THEN
+    RAISE EXCEPTION 'Only the room owner can delete the room' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM assert_room_mfa(p_room_id);
+
+  -- Uploads that never made it into a message are still under the room's
+  -- folder; files attached to messages are queued by the delete trigger
+  PERFORM queue_storage_cleanup(bucket_id, name)
+  FROM storage.objects
+  WHERE bucket_id = 'message-files'
+  AND name LIKE p_room_id::text || '/%';
+
+  -- Members, messages, reactions, invites, bans and the password all
+  -- cascade from the room
+  DELETE FROM rooms WHERE id = p_room_id;
+END;
+$$;
+
+-- A direct DELETE would skip the checks above
+DROP POLICY IF EXISTS "Owners can delete their rooms" ON rooms;
+
+REVOKE EXECUTE ON FUNCTION queue_storage_cleanup(text, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_message_files() FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION delete_room(uuid) FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION delete_room(uuid) TO authenticated;
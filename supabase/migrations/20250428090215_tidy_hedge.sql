@@ -0,0 +1,44 @@
+/*
+  # Only queue legacy images from the author's own folder
+
+  1. Changes
+    - `queue_message_files` queued whatever path a message's `image_url`
+      pointed into the legacy image bucket, and `image_url` was set by the
+      sender, so deleting a message could remove another user's image.
+      Legacy images were uploaded to `<user_id>/`, so only paths in the
+      message author's folder are queued now
+
+  2. Security
+    - Attachments and thumbnails need no check: constraints already keep
+      them under `<room_id>/<user_id>/`
+*/
+
+CREATE OR REPLACE FUNCTION queue_message_files()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_image_path text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (OLD.deleted_at IS NOT NULL OR NEW.deleted_at IS NULL) THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM queue_storage_cleanup('message-files', OLD.file_path);
+  PERFORM queue_storage_cleanup('message-files', OLD.thumbnail_path);
+
+  -- Images sent before attachments were private live in the legacy bucket,
+  -- under the uploader's id. Their URLs were never checked, so anything
+  -- outside the author's folder is left alone.
+  v_image_path := message_image_path(OLD.image_url);
+  IF split_part(v_image_path, '/', 1) = OLD.user_id::text THEN
+    PERFORM queue_storage_cleanup('message-images', v_image_path);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_message_files() FROM public, anon, authenticated;
@@ -0,0 +1,24 @@
+/*
+  # Only members who are not banned can read messages
+
+  1. Changes
+    - Messages were readable in any group room through `can_access_room`,
+      so kicked and banned users, or anyone who never joined, could still
+      read a room's history and follow it over realtime
+
+  2. Security
+    - Reading a message now takes the same membership and ban checks as
+      sending one. Reactions follow the visibility of their message, so
+      they are covered too.
+*/
+
+DROP POLICY IF EXISTS "Users can read messages in rooms they have access to" ON messages;
+
+CREATE POLICY "Members who are not banned can read messages"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_room_member(room_id)
+    AND NOT is_banned(room_id, auth.uid())
+  );
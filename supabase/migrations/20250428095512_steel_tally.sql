@@ -0,0 +1,86 @@
+/*
+  # Lock recovery code redemption after repeated failures
+
+  1. New Tables
+    - `recovery_code_attempts`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `failures` (integer, wrong codes since the last success or lockout)
+      - `locked_until` (timestamp, codes are refused until then)
+
+  2. Changes
+    - Recreate `redeem_recovery_code` to count wrong codes per user and
+      lock redemption after five of them
+
+  3. Security
+    - Enable RLS on recovery_code_attempts with no policies, so only
+      `redeem_recovery_code` can read or write it
+    - A session that passed only the first factor could otherwise guess
+      recovery codes without limit and remove the authenticator app. Five
+      wrong codes now lock redemption for 15 minutes.
+*/
+
+CREATE TABLE IF NOT EXISTS recovery_code_attempts (
+  user_id uuid PRIMARY KEY REFERENCES auth.users ON DELETE CASCADE,
+  failures integer NOT NULL DEFAULT 0,
+  locked_until timestamptz
+);
+
+ALTER TABLE recovery_code_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Failures are recorded instead of raised so the attempt counter is not
+-- rolled back
+CREATE OR REPLACE FUNCTION redeem_recovery_code(p_code text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_code text := lower(regexp_replace(coalesce(p_code, ''), '[^0-9a-fA-F]', '', 'g'));
+  v_hash text;
+  v_attempts recovery_code_attempts%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_attempts
+  FROM recovery_code_attempts
+  WHERE user_id = auth.uid()
+  FOR UPDATE;
+
+  IF v_attempts.locked_until > now() THEN
+    RAISE EXCEPTION 'Too many incorrect recovery codes. Try again later.' USING ERRCODE = '54000';
+  END IF;
+
+  FOR v_hash IN
+    SELECT code_hash FROM mfa_recovery_codes WHERE user_id = auth.uid()
+  LOOP
+    IF crypt(v_code, v_hash) = v_hash THEN
+      DELETE FROM auth.mfa_factors
+      WHERE user_id = auth.uid()
+      AND factor_type = 'totp';
+
+      DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+      DELETE FROM recovery_code_attempts WHERE user_id = auth.uid();
+      RETURN true;
+    END IF;
+  END LOOP;
+
+  INSERT INTO recovery_code_attempts (user_id, failures)
+  VALUES (auth.uid(), 1)
+  ON CONFLICT (user_id) DO UPDATE
+  SET
+    failures = CASE WHEN recovery_code_attempts.failures + 1 >= 5 THEN 0
+                    ELSE recovery_code_attempts.failures + 1 END,
+    locked_until = CASE WHEN recovery_code_attempts.failures + 1 >= 5
+                        THEN now() + interval '15 minutes'
+                        ELSE recovery_code_attempts.locked_until END;
+
+  RETURN false;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redeem_recovery_code(text) FROM public, anon;
+
+GRANT EXECUTE ON FUNCTION redeem_recovery_code(text) TO authenticated;
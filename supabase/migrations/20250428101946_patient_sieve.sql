@@ -0,0 +1,17 @@
+/*
+  # Back off storage cleanup retries
+
+  1. Changes
+    - Add `next_attempt_at` to storage_cleanup_queue. The `storage-cleanup`
+      function pushes it back further after each failed removal and skips
+      rows that are not due, so objects that keep failing no longer fill
+      every batch ahead of newer ones
+    - Rows that fail too often stay in the queue with their `last_error`
+      for someone to look at, and are no longer retried
+*/
+
+ALTER TABLE storage_cleanup_queue
+ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS storage_cleanup_queue_next_attempt_at_idx
+ON storage_cleanup_queue (next_attempt_at);
@@ -0,0 +1,17 @@
+/*
+  # Drop the current-password check
+
+  1. Changes
+    - Drop `verify_password` and the `password_check_attempts` table. The
+      client stopped calling it when password changes moved to Supabase's
+      reauthentication code, and email changes are confirmed from both
+      addresses
+
+  2. Security
+    - Signed-in sessions can no longer use the function to test guesses at
+      the account's password
+*/
+
+DROP FUNCTION IF EXISTS verify_password(text);
+
+DROP TABLE IF EXISTS password_check_attempts;